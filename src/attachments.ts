@@ -0,0 +1,242 @@
+import { type CompliqFile, fileSize, fileStream } from "./compliq";
+
+const MiB = 1024 * 1024;
+// Enough of the start of a file to recognize every signature below
+const HEAD_BYTES = 512;
+
+interface AttachmentType {
+	mime: string;
+	// Other names clients use for the same type
+	aliases: string[];
+	extensions: string[];
+	maxBytes: number;
+	// Whether the first bytes of a file look like this type
+	matches: (head: Uint8Array) => boolean;
+}
+
+/**
+ * The file types COMPLiQ accepts, keyed by the short names the tool descriptions use.
+ * docx is only recognized as a ZIP container; telling it apart from other Office files
+ * would mean unpacking it.
+ */
+export const ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+	png: {
+		mime: "image/png",
+		aliases: [],
+		extensions: ["png"],
+		maxBytes: 20 * MiB,
+		matches: (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+	},
+	jpeg: {
+		mime: "image/jpeg",
+		aliases: ["jpg", "image/jpg", "image/pjpeg"],
+		extensions: ["jpg", "jpeg"],
+		maxBytes: 20 * MiB,
+		matches: (head) => startsWith(head, [0xff, 0xd8, 0xff]),
+	},
+	mp3: {
+		mime: "audio/mpeg",
+		aliases: ["audio/mp3", "audio/mpeg3"],
+		extensions: ["mp3"],
+		maxBytes: 50 * MiB,
+		// An ID3 tag, or straight into an MPEG audio frame
+		matches: (head) =>
+			ascii(head, 0, 3) === "ID3" || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0),
+	},
+	mp4: {
+		mime: "video/mp4",
+		aliases: ["audio/mp4"],
+		extensions: ["mp4", "m4a", "m4v"],
+		maxBytes: 100 * MiB,
+		matches: (head) => ascii(head, 4, 8) === "ftyp",
+	},
+	docx: {
+		mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		aliases: [],
+		extensions: ["docx"],
+		maxBytes: 20 * MiB,
+		matches: (head) => startsWith(head, [0x50, 0x4b, 0x03, 0x04]),
+	},
+	pdf: {
+		mime: "application/pdf",
+		aliases: [],
+		extensions: ["pdf"],
+		maxBytes: 50 * MiB,
+		matches: (head) => ascii(head, 0, 5) === "%PDF-",
+	},
+	csv: {
+		mime: "text/csv",
+		aliases: ["application/csv", "text/comma-separated-values"],
+		extensions: ["csv"],
+		maxBytes: 10 * MiB,
+		matches: (head) => isText(head),
+	},
+	xml: {
+		mime: "application/xml",
+		aliases: ["text/xml"],
+		extensions: ["xml"],
+		maxBytes: 10 * MiB,
+		matches: (head) => isText(head) && /^\uFEFF?\s*</.test(decodeText(head)),
+	},
+	ogg: {
+		mime: "audio/ogg",
+		aliases: ["video/ogg", "application/ogg"],
+		extensions: ["ogg", "oga", "ogv"],
+		maxBytes: 50 * MiB,
+		matches: (head) => ascii(head, 0, 4) === "OggS",
+	},
+};
+
+export type AttachmentErrorCode =
+	| "unsupported_type"
+	| "type_mismatch"
+	| "extension_mismatch"
+	| "too_large";
+
+// An attachment was refused; `code` says why, so clients can fix the call
+export class AttachmentError extends Error {
+	code: AttachmentErrorCode;
+	details: Record<string, unknown>;
+
+	constructor(code: AttachmentErrorCode, message: string, details: Record<string, unknown> = {}) {
+		super(message);
+		this.name = "AttachmentError";
+		this.code = code;
+		this.details = details;
+	}
+}
+
+// Reads ATTACHMENT_MAX_BYTES, a JSON object of short type name -> byte limit
+export function parseAttachmentLimits(json?: string): Record<string, number> {
+	if (!json) {
+		return {};
+	}
+	let limits: Record<string, number>;
+	try {
+		limits = JSON.parse(json);
+	} catch {
+		throw new Error("ATTACHMENT_MAX_BYTES is not valid JSON");
+	}
+	for (const [short, limit] of Object.entries(limits)) {
+		if (!ATTACHMENT_TYPES[short]) {
+			throw new Error(`ATTACHMENT_MAX_BYTES names an unknown type: ${short}`);
+		}
+		if (!Number.isFinite(limit) || limit <= 0) {
+			throw new Error(`ATTACHMENT_MAX_BYTES has an invalid limit for ${short}`);
+		}
+	}
+	return limits;
+}
+
+// Finds the type for a short name, MIME type or alias, ignoring case and parameters
+export function lookupType(declared: string): [string, AttachmentType] | undefined {
+	const name = declared.split(";")[0].trim().toLowerCase();
+	return Object.entries(ATTACHMENT_TYPES).find(
+		([short, type]) => short === name || type.mime === name || type.aliases.includes(name),
+	);
+}
+
+/**
+ * Checks a file before it is submitted: the declared type must be on the allow-list, the
+ * content must look like that type, the file name must carry a matching extension, and
+ * the size must be within the type's limit. Returns the file with its canonical MIME type.
+ * `maxBytes` overrides the default limits per short name.
+ */
+export async function validateAttachment(
+	file: CompliqFile,
+	maxBytes: Record<string, number> = {},
+): Promise<CompliqFile> {
+	const found = lookupType(file.contentType);
+	if (!found) {
+		throw new AttachmentError(
+			"unsupported_type",
+			`File type ${file.contentType} is not allowed`,
+			{ declared: file.contentType, allowed: Object.keys(ATTACHMENT_TYPES) },
+		);
+	}
+	const [short, type] = found;
+
+	const extension = /\.([^.]+)$/.exec(file.name)?.[1]?.toLowerCase();
+	if (!extension || !type.extensions.includes(extension)) {
+		throw new AttachmentError(
+			"extension_mismatch",
+			`File name ${file.name} does not end in ${type.extensions
+				.map((ext) => `.${ext}`)
+				.join(" or ")}`,
+			{ declared: short, fileName: file.name },
+		);
+	}
+
+	const size = fileSize(file.data);
+	const limit = maxBytes[short] ?? type.maxBytes;
+	if (size > limit) {
+		throw new AttachmentError("too_large", `${short} files may be at most ${limit} bytes`, {
+			declared: short,
+			size,
+			maxBytes: limit,
+		});
+	}
+
+	const head = await readHead(file.data);
+	if (!type.matches(head)) {
+		throw new AttachmentError("type_mismatch", `File content does not look like ${short}`, {
+			declared: short,
+			detected: sniff(head),
+		});
+	}
+
+	return { ...file, contentType: type.mime };
+}
+
+// The short name of the type a file's content looks like, if any binary signature matches
+export function sniff(head: Uint8Array): string | undefined {
+	return Object.entries(ATTACHMENT_TYPES).find(
+		([, type]) => !isTextType(type) && type.matches(head),
+	)?.[0];
+}
+
+async function readHead(data: CompliqFile["data"]): Promise<Uint8Array> {
+	if (data instanceof Uint8Array) {
+		return data.subarray(0, HEAD_BYTES);
+	}
+	if (data instanceof Blob) {
+		return new Uint8Array(await data.slice(0, HEAD_BYTES).arrayBuffer());
+	}
+	// Only read the first chunk of a staged file, not the whole thing
+	const reader = fileStream(data).getReader();
+	const { value } = await reader.read();
+	await reader.cancel();
+	return (value ?? new Uint8Array()).subarray(0, HEAD_BYTES);
+}
+
+function isTextType(type: AttachmentType): boolean {
+	return type.mime.startsWith("text/") || type.mime === "application/xml";
+}
+
+function startsWith(head: Uint8Array, signature: number[]): boolean {
+	return signature.every((byte, index) => head[index] === byte);
+}
+
+function ascii(head: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(...head.subarray(start, end));
+}
+
+function decodeText(head: Uint8Array): string {
+	return new TextDecoder().decode(head);
+}
+
+// No NUL bytes and valid UTF-8, allowing for a character cut off at the end of the sample
+function isText(head: Uint8Array): boolean {
+	if (head.includes(0)) {
+		return false;
+	}
+	for (let trim = 0; trim < 4 && trim <= head.byteLength; trim++) {
+		try {
+			new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(
+				head.subarray(0, head.byteLength - trim),
+			);
+			return true;
+		} catch {}
+	}
+	return false;
+}
@@ -0,0 +1,399 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { logger } from "./logger";
+import { type TenantEnv, getTenantConfigs } from "./tenants";
+
+const log = logger("auth");
+
+// Header the worker uses to hand the authenticated principal to a Durable Object
+export const PRINCIPAL_HEADER = "X-Principal";
+
+// Lets a caller log interactions for any userId, not just its own
+export const ANY_USER_SCOPE = "compliq:any-user";
+
+// Lets a caller manage tenant-wide state, such as replaying or purging dead letters
+export const ADMIN_SCOPE = "compliq:admin";
+
+// Who made a request, as established by the worker
+export interface Principal {
+	subject: string;
+	clientId: string;
+	// The end user this principal acts as; unset for service credentials that log for many users
+	userId?: string;
+	tenant?: string;
+	scopes: string[];
+	expiresAt?: number;
+	source: "token" | "api-key" | "oauth";
+}
+
+// A static bearer token entry in AUTH_TOKENS
+interface StaticToken {
+	subject: string;
+	userId?: string;
+	tenant?: string;
+	scopes?: string[];
+}
+
+export interface AuthEnv extends TenantEnv {
+	// JSON object of bearer token -> StaticToken
+	AUTH_TOKENS?: string;
+	OAUTH_ISSUER?: string;
+	OAUTH_JWKS_URL?: string;
+	OAUTH_AUDIENCE?: string;
+	OAUTH_RESOURCE?: string;
+	OAUTH_TENANT_CLAIM?: string;
+	OAUTH_SCOPES?: string;
+	AUTH_DISABLED?: string;
+}
+
+export class AuthError extends Error {
+	status: number;
+	// Unset when the request simply carried no credentials (RFC 6750, section 3.1)
+	code?: "invalid_request" | "invalid_token" | "insufficient_scope";
+
+	constructor(message: string, code: AuthError["code"] | null = "invalid_token", status = 401) {
+		super(message);
+		this.name = "AuthError";
+		this.code = code ?? undefined;
+		this.status = status;
+	}
+}
+
+export function isAuthDisabled(env: AuthEnv): boolean {
+	return env.AUTH_DISABLED === "true";
+}
+
+export function isOAuthEnabled(env: AuthEnv): boolean {
+	return !!env.OAUTH_ISSUER && !!env.OAUTH_JWKS_URL;
+}
+
+/**
+ * Establishes who is calling. Bearer tokens are checked against AUTH_TOKENS first and then
+ * verified as OAuth access tokens; an X-Api-Key header is checked against the tenants' keys.
+ */
+export async function authenticate(request: Request, env: AuthEnv): Promise<Principal> {
+	const authorization = request.headers.get("Authorization");
+	const apiKey = request.headers.get("X-Api-Key");
+
+	if (authorization) {
+		const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+		if (!match) {
+			throw new AuthError(
+				"Authorization header must use the Bearer scheme",
+				"invalid_request",
+				400,
+			);
+		}
+		const token = match[1];
+		const principal = findStaticToken(env, token);
+		if (principal) {
+			return principal;
+		}
+		if (isOAuthEnabled(env)) {
+			return verifyAccessToken(token, request, env);
+		}
+		throw new AuthError("Invalid bearer token");
+	}
+
+	if (apiKey) {
+		const principal = findApiKey(env, apiKey);
+		if (principal) {
+			return principal;
+		}
+		throw new AuthError("Invalid API key");
+	}
+
+	throw new AuthError("Authentication required", null);
+}
+
+export function toAuthInfo(principal: Principal, token: string): AuthInfo {
+	return {
+		token,
+		clientId: principal.clientId,
+		scopes: principal.scopes,
+		expiresAt: principal.expiresAt,
+		extra: { principal },
+	};
+}
+
+export function principalFromAuthInfo(authInfo?: AuthInfo): Principal | undefined {
+	return authInfo?.extra?.principal as Principal | undefined;
+}
+
+/**
+ * Works out the userId to log for a tool call. A principal bound to a user fills in a missing
+ * userId and may not log for anyone else unless it holds the any-user scope.
+ */
+export function resolveUserId(userId: string | undefined, authInfo?: AuthInfo): string | undefined {
+	const principal = principalFromAuthInfo(authInfo);
+	if (!principal?.userId) {
+		return userId;
+	}
+	if (!userId) {
+		return principal.userId;
+	}
+	if (userId !== principal.userId && !principal.scopes.includes(ANY_USER_SCOPE)) {
+		throw new AuthError(
+			`Principal ${principal.subject} may not log interactions for user ${userId}`,
+			"insufficient_scope",
+			403,
+		);
+	}
+	return userId;
+}
+
+export function requireUserId(userId: string | undefined, authInfo?: AuthInfo): string {
+	const resolved = resolveUserId(userId, authInfo);
+	if (!resolved) {
+		throw new AuthError("userId is required", "invalid_request", 400);
+	}
+	return resolved;
+}
+
+// Checks an authenticated caller holds a scope; unauthenticated deployments are not restricted
+export function requireScope(authInfo: AuthInfo | undefined, scope: string) {
+	const principal = principalFromAuthInfo(authInfo);
+	if (principal && !principal.scopes.includes(scope)) {
+		throw new AuthError(`This action requires the ${scope} scope`, "insufficient_scope", 403);
+	}
+}
+
+// The identifier clients use for this server when asking for tokens (RFC 8707)
+export function resourceUrl(request: Request, env: AuthEnv): string {
+	return env.OAUTH_RESOURCE ?? new URL(request.url).origin;
+}
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728), as required by the MCP authorization spec
+export function protectedResourceMetadata(request: Request, env: AuthEnv) {
+	return {
+		resource: resourceUrl(request, env),
+		authorization_servers: [env.OAUTH_ISSUER],
+		bearer_methods_supported: ["header"],
+		...(env.OAUTH_SCOPES && { scopes_supported: env.OAUTH_SCOPES.split(/\s+/) }),
+	};
+}
+
+export function unauthorizedResponse(error: AuthError, request: Request, env: AuthEnv): Response {
+	const params = error.code
+		? [`error="${error.code}"`, `error_description="${quoted(error.message)}"`]
+		: [];
+	if (isOAuthEnabled(env)) {
+		const origin = new URL(request.url).origin;
+		params.unshift(`resource_metadata="${origin}/.well-known/oauth-protected-resource"`);
+	} else {
+		params.unshift('realm="compliq-mcp"');
+	}
+
+	const body = { error: error.code ?? "unauthorized", error_description: error.message };
+	return new Response(JSON.stringify(body), {
+		status: error.status,
+		headers: {
+			"Content-Type": "application/json",
+			"WWW-Authenticate": `Bearer ${params.join(", ")}`,
+			"Access-Control-Allow-Origin": "*",
+			"Access-Control-Expose-Headers": "WWW-Authenticate",
+		},
+	});
+}
+
+// Makes text safe for a quoted-string in a header: messages can echo token contents, and
+// a stray quote would corrupt the header while a line break or non-ASCII makes it invalid
+function quoted(value: string): string {
+	return value.replace(/[^\x20-\x7e]/g, "").replace(/["\\]/g, "\\$&");
+}
+
+// Compares secrets without leaking how much of them matched through timing
+export function safeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const left = encoder.encode(a);
+	const right = encoder.encode(b);
+	if (left.byteLength !== right.byteLength) {
+		return false;
+	}
+	let difference = 0;
+	for (let i = 0; i < left.byteLength; i++) {
+		difference |= left[i] ^ right[i];
+	}
+	return difference === 0;
+}
+
+function findStaticToken(env: AuthEnv, token: string): Principal | undefined {
+	if (!env.AUTH_TOKENS) {
+		return undefined;
+	}
+	let tokens: Record<string, StaticToken>;
+	try {
+		tokens = JSON.parse(env.AUTH_TOKENS);
+	} catch (error) {
+		log.error("AUTH_TOKENS is not valid JSON, ignoring it", { error });
+		return undefined;
+	}
+	for (const [candidate, entry] of Object.entries(tokens)) {
+		if (safeEqual(candidate, token)) {
+			return {
+				subject: entry.subject,
+				clientId: entry.subject,
+				userId: entry.userId,
+				tenant: entry.tenant,
+				scopes: entry.scopes ?? [],
+				source: "token",
+			};
+		}
+	}
+	return undefined;
+}
+
+function findApiKey(env: AuthEnv, apiKey: string): Principal | undefined {
+	for (const [tenant, config] of Object.entries(getTenantConfigs(env))) {
+		if (config.apiKeys?.some((candidate) => safeEqual(candidate, apiKey))) {
+			return {
+				subject: `api-key:${tenant}`,
+				clientId: `api-key:${tenant}`,
+				tenant,
+				scopes: [],
+				source: "api-key",
+			};
+		}
+	}
+	return undefined;
+}
+
+// Signing algorithms we accept on access tokens, mapped to WebCrypto parameters
+const JWT_ALGORITHMS: Record<string, { import: any; verify: any }> = {
+	RS256: {
+		import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+		verify: { name: "RSASSA-PKCS1-v1_5" },
+	},
+	ES256: {
+		import: { name: "ECDSA", namedCurve: "P-256" },
+		verify: { name: "ECDSA", hash: "SHA-256" },
+	},
+};
+
+const JWKS_TTL_MS = 10 * 60 * 1000;
+// Tokens naming an unknown key refetch the JWKS at most this often, so they cannot hammer the issuer
+const JWKS_REFRESH_COOLDOWN_MS = 30 * 1000;
+let jwksCache: { url: string; keys: any[]; fetchedAt: number } | undefined;
+
+async function getJwks(url: string, forceRefresh = false): Promise<any[]> {
+	if (jwksCache?.url === url) {
+		const age = Date.now() - jwksCache.fetchedAt;
+		if (age < (forceRefresh ? JWKS_REFRESH_COOLDOWN_MS : JWKS_TTL_MS)) {
+			return jwksCache.keys;
+		}
+	}
+	// Tokens cannot be checked without the keys, which is our problem rather than the client's
+	let keys: any[];
+	try {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`Failed to fetch JWKS (${response.status})`);
+		}
+		({ keys } = (await response.json()) as { keys: any[] });
+		if (!Array.isArray(keys)) {
+			throw new Error("JWKS has no keys array");
+		}
+	} catch (error) {
+		log.error("Fetching JWKS failed", { url, error });
+		throw new AuthError("Signing keys are unavailable, try again later", null, 503);
+	}
+	jwksCache = { url, keys, fetchedAt: Date.now() };
+	return keys;
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeJwtPart(value: string): any {
+	return JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+}
+
+async function verifyAccessToken(
+	token: string,
+	request: Request,
+	env: AuthEnv,
+): Promise<Principal> {
+	const parts = token.split(".");
+	if (parts.length !== 3) {
+		throw new AuthError("Malformed access token");
+	}
+
+	let header: any;
+	let claims: any;
+	try {
+		header = decodeJwtPart(parts[0]);
+		claims = decodeJwtPart(parts[1]);
+	} catch {
+		throw new AuthError("Malformed access token");
+	}
+
+	const algorithm = JWT_ALGORITHMS[header.alg];
+	if (!algorithm) {
+		throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+	}
+
+	// A key we have not seen may mean the issuer rotated its keys since we cached them; the cooldown
+	// means such a token is only checked against the cached keys if they were fetched moments ago
+	let jwk = (await getJwks(env.OAUTH_JWKS_URL!)).find((key) => key.kid === header.kid);
+	if (!jwk) {
+		jwk = (await getJwks(env.OAUTH_JWKS_URL!, true)).find((key) => key.kid === header.kid);
+	}
+	if (!jwk) {
+		throw new AuthError("Access token was signed with an unknown key");
+	}
+
+	// A key that does not fit the token's algorithm, or a garbled signature, is the token's fault
+	let valid: boolean;
+	try {
+		const key = await crypto.subtle.importKey("jwk", jwk, algorithm.import, false, ["verify"]);
+		const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+		valid = await crypto.subtle.verify(
+			algorithm.verify,
+			key,
+			decodeBase64Url(parts[2]),
+			signed,
+		);
+	} catch (error) {
+		log.warn("Verifying access token failed", { alg: header.alg, kid: header.kid, error });
+		throw new AuthError("Access token signature could not be verified");
+	}
+	if (!valid) {
+		throw new AuthError("Access token signature is invalid");
+	}
+
+	const now = Math.floor(Date.now() / 1000);
+	if (typeof claims.sub !== "string" || !claims.sub) {
+		throw new AuthError("Access token has no subject");
+	}
+	if (claims.iss !== env.OAUTH_ISSUER) {
+		throw new AuthError("Access token was issued by an untrusted issuer");
+	}
+	if (typeof claims.exp !== "number" || claims.exp <= now) {
+		throw new AuthError("Access token has expired");
+	}
+	if (typeof claims.nbf === "number" && claims.nbf > now) {
+		throw new AuthError("Access token is not valid yet");
+	}
+
+	// Tokens must have been minted for this server, not some other resource
+	const audience = env.OAUTH_AUDIENCE ?? resourceUrl(request, env);
+	const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+	if (!audiences.includes(audience)) {
+		throw new AuthError("Access token is not intended for this server");
+	}
+
+	const scopes = typeof claims.scope === "string" ? claims.scope.split(" ").filter(Boolean) : [];
+	const tenantClaim = env.OAUTH_TENANT_CLAIM;
+
+	return {
+		subject: claims.sub,
+		clientId: claims.client_id ?? claims.azp ?? claims.sub,
+		userId: claims.sub,
+		tenant: tenantClaim ? claims[tenantClaim] : undefined,
+		scopes,
+		expiresAt: claims.exp,
+		source: "oauth",
+	};
+}
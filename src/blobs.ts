@@ -0,0 +1,98 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+
+// Durable Object storage caps values at 128 KiB, so larger byte arrays are split
+const CHUNK_SIZE = 64 * 1024;
+// Storage get/put/delete accept at most 128 keys per call
+const KEYS_PER_CALL = 128;
+
+function chunkKeys(key: string, chunks: number): string[] {
+	return Array.from({ length: chunks }, (_, index) => `${key}:${index}`);
+}
+
+function batches<T>(items: T[]): T[][] {
+	const result: T[][] = [];
+	for (let i = 0; i < items.length; i += KEYS_PER_CALL) {
+		result.push(items.slice(i, i + KEYS_PER_CALL));
+	}
+	return result;
+}
+
+/**
+ * Appends a stream to the bytes stored under `key`, one chunk at a time so the stream is
+ * never held in memory whole. `state` tracks the stored chunks and size and is updated as
+ * chunks are written, so it is accurate even if the stream fails or runs over `maxSize`.
+ */
+export async function appendStream(
+	storage: DurableObjectStorage,
+	key: string,
+	state: { chunks: number; size: number },
+	stream: ReadableStream<Uint8Array>,
+	maxSize = Number.POSITIVE_INFINITY,
+) {
+	// Top up a partly filled last chunk before starting new ones
+	let index = state.size % CHUNK_SIZE === 0 ? state.chunks : state.chunks - 1;
+	let buffer =
+		index < state.chunks
+			? (await storage.get<Uint8Array>(`${key}:${index}`)) ?? new Uint8Array()
+			: new Uint8Array();
+	const flush = async () => {
+		await storage.put(`${key}:${index}`, buffer);
+		state.chunks = index + 1;
+	};
+
+	const reader = stream.getReader();
+	for (let read = await reader.read(); !read.done; read = await reader.read()) {
+		if (state.size + read.value.byteLength > maxSize) {
+			await reader.cancel();
+			throw new RangeError(`Exceeds the limit of ${maxSize} bytes`);
+		}
+		let offset = 0;
+		while (offset < read.value.byteLength) {
+			const take = Math.min(CHUNK_SIZE - buffer.byteLength, read.value.byteLength - offset);
+			const next = new Uint8Array(buffer.byteLength + take);
+			next.set(buffer);
+			next.set(read.value.subarray(offset, offset + take), buffer.byteLength);
+			buffer = next;
+			offset += take;
+			state.size += take;
+			if (buffer.byteLength === CHUNK_SIZE) {
+				await flush();
+				index++;
+				buffer = new Uint8Array();
+			}
+		}
+	}
+	if (buffer.byteLength > 0) {
+		await flush();
+	}
+}
+
+// Reads bytes stored under `key` back as a stream, fetching each chunk when it is needed
+export function streamBytes(
+	storage: DurableObjectStorage,
+	key: string,
+	chunks: number,
+): ReadableStream<Uint8Array> {
+	let index = 0;
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (index >= chunks) {
+				controller.close();
+				return;
+			}
+			const chunkKey = `${key}:${index++}`;
+			const part = await storage.get<Uint8Array>(chunkKey);
+			if (!part) {
+				controller.error(new Error(`Missing stored chunk ${chunkKey}`));
+				return;
+			}
+			controller.enqueue(part);
+		},
+	});
+}
+
+export async function deleteBytes(storage: DurableObjectStorage, key: string, chunks: number) {
+	for (const batch of batches(chunkKeys(key, chunks))) {
+		await storage.delete(batch);
+	}
+}
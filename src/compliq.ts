@@ -0,0 +1,402 @@
+import { TRACE_HEADER, currentTrace } from "./logger";
+import { type CompliqEndpoint, type CompliqTarget, endpointUrl } from "./targets";
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+// File bytes that are read on demand, e.g. from a staged upload, so they never have to be held in memory whole
+export interface FileSource {
+	// Identity of the bytes, used instead of hashing them; changes whenever they could have
+	key: string;
+	size: number;
+	stream(): ReadableStream<Uint8Array>;
+}
+
+// A file attached to a submission
+export interface CompliqFile {
+	data: Uint8Array | Blob | FileSource;
+	name: string;
+	contentType: string;
+}
+
+export function isFileSource(data: CompliqFile["data"]): data is FileSource {
+	return !(data instanceof Uint8Array) && !(data instanceof Blob);
+}
+
+export function fileSize(data: CompliqFile["data"]): number {
+	return data instanceof Uint8Array ? data.byteLength : data.size;
+}
+
+export function fileStream(data: CompliqFile["data"]): ReadableStream<Uint8Array> {
+	return data instanceof Uint8Array ? new Blob([data]).stream() : data.stream();
+}
+
+interface CompliqRequestBase {
+	sessionId: string;
+	correlationId: string;
+	// MM-DD-YYYY HH:MM:SS
+	timestamp: string;
+}
+
+export interface TaskInputRequest extends CompliqRequestBase {
+	content: string;
+	userId: string;
+	// Why the content was blocked by the tenant's policy pack, if it was
+	policyViolation?: string;
+}
+
+export interface FileInputRequest extends CompliqRequestBase {
+	file: CompliqFile;
+	userId?: string;
+}
+
+// Resource and output submissions carry either text content or a file
+export interface ResourcesUsedRequest extends CompliqRequestBase {
+	resourceName: string;
+	content?: string;
+	file?: CompliqFile;
+	userId: string;
+}
+
+export interface OutputRequest extends CompliqRequestBase {
+	// HH:MM:SS
+	processingTime: string;
+	content?: string;
+	file?: CompliqFile;
+	userId: string;
+	policyViolation?: string;
+}
+
+// The request type each endpoint takes
+export interface CompliqRequests {
+	taskInput: TaskInputRequest;
+	fileInput: FileInputRequest;
+	resourcesUsed: ResourcesUsedRequest;
+	output: OutputRequest;
+}
+
+export type CompliqRequest = CompliqRequests[CompliqEndpoint];
+
+// What COMPLiQ answers with when it accepts a submission
+export interface CompliqRecord {
+	id?: string;
+	status?: string;
+	[key: string]: unknown;
+}
+
+export type TaskInputResponse = CompliqRecord;
+export type FileInputResponse = CompliqRecord;
+export type ResourcesUsedResponse = CompliqRecord;
+export type OutputResponse = CompliqRecord;
+
+export type CompliqErrorKind =
+	| "compliq_auth"
+	| "compliq_validation"
+	| "compliq_server"
+	| "compliq_timeout"
+	| "compliq_network";
+
+export class CompliqError extends Error {
+	kind: CompliqErrorKind;
+	status?: number;
+	// Response body or other context that explains the failure
+	details?: unknown;
+	// Whether sending the same submission again could succeed
+	retryable: boolean;
+
+	constructor(
+		kind: CompliqErrorKind,
+		message: string,
+		options: { status?: number; details?: unknown; retryable?: boolean } = {},
+	) {
+		super(message);
+		this.name = "CompliqError";
+		this.kind = kind;
+		this.status = options.status;
+		this.details = options.details;
+		this.retryable = options.retryable ?? false;
+	}
+}
+
+// The API key is missing, or COMPLiQ rejected it (401/403)
+export class CompliqAuthError extends CompliqError {
+	constructor(message: string, status?: number, details?: unknown) {
+		super("compliq_auth", message, { status, details });
+		this.name = "CompliqAuthError";
+	}
+}
+
+// COMPLiQ rejected the submission itself (any other 4xx)
+export class CompliqValidationError extends CompliqError {
+	constructor(message: string, status: number, details?: unknown) {
+		// 408 and 429 are about timing, not content
+		super("compliq_validation", message, {
+			status,
+			details,
+			retryable: status === 408 || status === 429,
+		});
+		this.name = "CompliqValidationError";
+	}
+}
+
+export class CompliqServerError extends CompliqError {
+	constructor(message: string, status: number, details?: unknown) {
+		super("compliq_server", message, { status, details, retryable: true });
+		this.name = "CompliqServerError";
+	}
+}
+
+export class CompliqTimeoutError extends CompliqError {
+	constructor(timeoutMs: number) {
+		super("compliq_timeout", `COMPLiQ did not respond within ${timeoutMs}ms`, {
+			retryable: true,
+		});
+		this.name = "CompliqTimeoutError";
+	}
+}
+
+export class CompliqNetworkError extends CompliqError {
+	constructor(message: string) {
+		super("compliq_network", message, { retryable: true });
+		this.name = "CompliqNetworkError";
+	}
+}
+
+export interface CompliqClientOptions {
+	apiKey: string;
+	target: CompliqTarget;
+	timeoutMs?: number;
+	// Called after each call with the HTTP status, or "timeout" or "network" if there was none
+	onResponse?: (endpoint: CompliqEndpoint, status: number | string, durationMs: number) => void;
+}
+
+// Decodes base64 file data as sent by MCP clients
+export function decodeBase64(data: string): Uint8Array {
+	return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Typed client for the four COMPLiQ action endpoints. Every failure is thrown as a
+ * CompliqError subclass so callers can tell auth, validation, server and transport
+ * problems apart.
+ */
+export class CompliqClient {
+	private apiKey: string;
+	private target: CompliqTarget;
+	private timeoutMs: number;
+	private onResponse?: CompliqClientOptions["onResponse"];
+
+	constructor(options: CompliqClientOptions) {
+		this.apiKey = options.apiKey;
+		this.target = options.target;
+		this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+		this.onResponse = options.onResponse;
+	}
+
+	taskInput(request: TaskInputRequest): Promise<TaskInputResponse> {
+		const form = this.baseForm(request);
+		form.push(["content", request.content]);
+		form.push(["userId", request.userId]);
+		pushPolicyViolation(form, request);
+		return this.post("taskInput", form);
+	}
+
+	fileInput(request: FileInputRequest): Promise<FileInputResponse> {
+		const form = this.baseForm(request);
+		form.push(["file", request.file]);
+		if (request.userId) {
+			form.push(["userId", request.userId]);
+		}
+		return this.post("fileInput", form);
+	}
+
+	resourcesUsed(request: ResourcesUsedRequest): Promise<ResourcesUsedResponse> {
+		const form = this.baseForm(request);
+		form.push(["resourceName", request.resourceName]);
+		pushContentOrFile(form, request);
+		form.push(["userId", request.userId]);
+		return this.post("resourcesUsed", form);
+	}
+
+	output(request: OutputRequest): Promise<OutputResponse> {
+		const form = this.baseForm(request);
+		form.push(["processingTime", request.processingTime]);
+		pushContentOrFile(form, request);
+		form.push(["userId", request.userId]);
+		pushPolicyViolation(form, request);
+		return this.post("output", form);
+	}
+
+	// Sends to an endpoint that is only known at runtime, e.g. when replaying queued submissions
+	submit<E extends CompliqEndpoint>(
+		endpoint: E,
+		request: CompliqRequests[E],
+	): Promise<CompliqRecord> {
+		switch (endpoint) {
+			case "taskInput":
+				return this.taskInput(request as TaskInputRequest);
+			case "fileInput":
+				return this.fileInput(request as FileInputRequest);
+			case "resourcesUsed":
+				return this.resourcesUsed(request as ResourcesUsedRequest);
+			case "output":
+				return this.output(request as OutputRequest);
+		}
+		throw new Error(`Unknown COMPLiQ endpoint: ${endpoint}`);
+	}
+
+	private baseForm(request: CompliqRequestBase): FormField[] {
+		return [
+			["sessionId", request.sessionId],
+			["correlationId", request.correlationId],
+			["timestamp", request.timestamp],
+		];
+	}
+
+	private async post<T>(endpoint: CompliqEndpoint, form: FormField[]): Promise<T> {
+		if (!this.apiKey) {
+			throw new CompliqAuthError("API key is not configured");
+		}
+
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+		const multipart = multipartBody(form);
+		const headers: Record<string, string> = {
+			Authorization: `x-api-key ${this.apiKey}`,
+			"Content-Type": multipart.contentType,
+		};
+		const trace = currentTrace();
+		if (trace) {
+			headers[TRACE_HEADER] = trace.traceId;
+		}
+		const startedAt = Date.now();
+		let response: Response | undefined;
+		let body: unknown;
+		// The timeout covers reading the body too, so a response that stalls halfway still fails
+		try {
+			response = await fetch(endpointUrl(this.target, endpoint), {
+				method: "POST",
+				headers,
+				body: multipart.body,
+				signal: controller.signal,
+			});
+			this.onResponse?.(endpoint, response.status, Date.now() - startedAt);
+			body = await readBody(response);
+		} catch (error: any) {
+			if (controller.signal.aborted) {
+				if (!response) {
+					this.onResponse?.(endpoint, "timeout", Date.now() - startedAt);
+				}
+				throw new CompliqTimeoutError(this.timeoutMs);
+			}
+			if (!response) {
+				this.onResponse?.(endpoint, "network", Date.now() - startedAt);
+			}
+			const failed = response ? "Reading the COMPLiQ response failed" : "Could not reach COMPLiQ";
+			throw new CompliqNetworkError(`${failed}: ${error.message || error}`);
+		} finally {
+			clearTimeout(timer);
+		}
+
+		if (response.ok) {
+			return body as T;
+		}
+
+		const message = `COMPLiQ ${endpoint} failed with ${response.status}`;
+		if (response.status === 401 || response.status === 403) {
+			throw new CompliqAuthError(message, response.status, body);
+		}
+		if (response.status >= 500) {
+			throw new CompliqServerError(message, response.status, body);
+		}
+		throw new CompliqValidationError(message, response.status, body);
+	}
+}
+
+type FormField = [name: string, value: string | CompliqFile];
+
+function pushContentOrFile(form: FormField[], request: { content?: string; file?: CompliqFile }) {
+	if (request.content) {
+		form.push(["content", request.content]);
+	} else if (request.file) {
+		form.push(["file", request.file]);
+	}
+}
+
+// Marks a record COMPLiQ should keep although the content broke the tenant's policy
+function pushPolicyViolation(form: FormField[], request: { policyViolation?: string }) {
+	if (request.policyViolation) {
+		form.push(["policyViolation", request.policyViolation]);
+	}
+}
+
+/**
+ * Encodes fields as multipart/form-data, streaming file bytes into the request as they are
+ * read instead of buffering the whole body the way FormData does.
+ */
+function multipartBody(form: FormField[]): { body: ReadableStream; contentType: string } {
+	const boundary = `----compliq${crypto.randomUUID().replace(/-/g, "")}`;
+	const encoder = new TextEncoder();
+	const pieces: (Uint8Array | CompliqFile)[] = [];
+	for (const [name, value] of form) {
+		if (typeof value === "string") {
+			pieces.push(
+				encoder.encode(
+					`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+				),
+			);
+		} else {
+			const filename = quoteFileName(value.name);
+			pieces.push(
+				encoder.encode(
+					`--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${filename}"\r\nContent-Type: ${value.contentType}\r\n\r\n`,
+				),
+				value,
+				encoder.encode("\r\n"),
+			);
+		}
+	}
+	pieces.push(encoder.encode(`--${boundary}--\r\n`));
+
+	// A fixed length lets the runtime send Content-Length instead of chunked encoding
+	const length = pieces.reduce(
+		(total, piece) =>
+			total + (piece instanceof Uint8Array ? piece.byteLength : fileSize(piece.data)),
+		0,
+	);
+	const { readable, writable } = new FixedLengthStream(length);
+	const pump = async () => {
+		const writer = writable.getWriter();
+		try {
+			for (const piece of pieces) {
+				if (piece instanceof Uint8Array) {
+					await writer.write(piece);
+					continue;
+				}
+				const reader = fileStream(piece.data).getReader();
+				for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+					await writer.write(chunk.value);
+				}
+			}
+			await writer.close();
+		} catch (error) {
+			await writer.abort(error).catch(() => {});
+		}
+	};
+	pump();
+	return { body: readable, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+// The same escaping browsers apply to file names in form data
+function quoteFileName(name: string): string {
+	return name.replace(/"/g, "%22").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+// COMPLiQ answers in JSON, but proxies in front of it may not
+async function readBody(response: Response): Promise<unknown> {
+	const text = await response.text();
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text.length > 2000 ? `${text.slice(0, 2000)}…` : text;
+	}
+}
@@ -0,0 +1,86 @@
+// How long a readiness probe may take, for the Durable Object and for COMPLiQ
+export const READY_TIMEOUT_MS = 5_000;
+
+// Queued submissions a tenant may have before it is reported as not ready
+export const DEFAULT_READY_MAX_BACKLOG = 1000;
+
+// A successful call to COMPLiQ stands in for a probe only this long after it was made
+const UPSTREAM_FRESH_MS = 60_000;
+
+// One readiness check; `detail` explains it and is only shown to admins
+export interface Check {
+	ok: boolean;
+	detail?: unknown;
+}
+
+export type Checks = Record<string, Check>;
+
+// The outcome of the last call to COMPLiQ, kept by each tenant's Durable Object
+export interface UpstreamCall {
+	at: number;
+	ok: boolean;
+	error?: string;
+}
+
+/**
+ * Whether COMPLiQ can be reached: a recent call going through is enough, otherwise the
+ * base URL is probed. Any answer below 500 counts, since the probe is not a real submission.
+ */
+export async function checkUpstream(
+	baseUrl: string,
+	last?: UpstreamCall,
+	timeoutMs = READY_TIMEOUT_MS,
+	now = Date.now(),
+): Promise<Check> {
+	const lastCall = last && { ...last, at: new Date(last.at).toISOString() };
+	if (last?.ok && now - last.at < UPSTREAM_FRESH_MS) {
+		return { ok: true, detail: { baseUrl, lastCall } };
+	}
+	try {
+		const response = await withTimeout(
+			fetch(baseUrl, { method: "HEAD", redirect: "manual" }),
+			timeoutMs,
+			`${baseUrl} did not respond within ${timeoutMs}ms`,
+		);
+		return {
+			ok: response.status < 500,
+			detail: { baseUrl, lastCall, probeStatus: response.status },
+		};
+	} catch (error) {
+		return { ok: false, detail: { baseUrl, lastCall, probeError: (error as Error).message } };
+	}
+}
+
+export function checkBacklog(pending: number, deadLetters: number, maxBacklog: number): Check {
+	return { ok: pending <= maxBacklog, detail: { pending, deadLetters, maxBacklog } };
+}
+
+/**
+ * The /ready response body. Anyone may see which checks fail; what they found is left out
+ * unless `detailed`, since it names backends and configuration.
+ */
+export function readinessReport(tenant: string, checks: Checks, detailed: boolean) {
+	const ready = Object.values(checks).every((check) => check.ok);
+	return {
+		status: ready ? "ready" : "not_ready",
+		tenant,
+		checks: Object.fromEntries(
+			Object.entries(checks).map(([name, check]) => [
+				name,
+				detailed ? check : { ok: check.ok },
+			]),
+		),
+	};
+}
+
+export function withTimeout<T>(
+	promise: Promise<T>,
+	timeoutMs: number,
+	message: string,
+): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,229 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { type CompliqFile, type CompliqRequest, fileSize } from "./compliq";
+import type { CompliqEndpoint } from "./targets";
+
+const SESSION_PREFIX = "history-session:";
+const EVENT_PREFIX = "history-event:";
+// correlationId -> event key, so an interaction can be read without knowing its session
+const CORRELATION_PREFIX = "history-correlation:";
+// subject -> sessionId, so a client's own sessions can be listed a page at a time
+const OWNER_PREFIX = "history-owner:";
+
+export const DEFAULT_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// One submission as it was sent to COMPLiQ, and what came back
+export interface HistoryEvent {
+	id: string;
+	sessionId: string;
+	correlationId: string;
+	endpoint: CompliqEndpoint;
+	at: number;
+	// "outbox" when the alarm delivered a submission that had been queued
+	source: "tool" | "outbox";
+	status: "delivered" | "queued" | "failed";
+	// The request with any file replaced by its name, type and size
+	request: Record<string, unknown>;
+	response?: unknown;
+	error?: unknown;
+}
+
+export interface HistorySession {
+	sessionId: string;
+	// Subject of the principal that logged the session's first submission; others cannot see it
+	subject?: string;
+	firstAt: number;
+	lastAt: number;
+	events: number;
+	correlationIds: string[];
+}
+
+/**
+ * A local log of every submission made for the tenant, grouped by session, backing the
+ * compliq:// resources. A session is kept until it has been idle for the retention period.
+ */
+export class HistoryStore {
+	private storage: DurableObjectStorage;
+	private retentionMs: number;
+	private counter = 0;
+
+	constructor(storage: DurableObjectStorage, retentionMs = DEFAULT_HISTORY_RETENTION_MS) {
+		this.storage = storage;
+		this.retentionMs = retentionMs;
+	}
+
+	// Appends an event, returning it and whether it opened a new session, owned by `subject`
+	async record(
+		endpoint: CompliqEndpoint,
+		request: CompliqRequest,
+		outcome: Pick<HistoryEvent, "source" | "status" | "response" | "error">,
+		subject?: string,
+		now = Date.now(),
+	): Promise<{ event: HistoryEvent; newSession: boolean }> {
+		const event: HistoryEvent = {
+			// Sortable by time, and unique within this object
+			id: `${now.toString(36).padStart(9, "0")}${(this.counter++ % 36 ** 4)
+				.toString(36)
+				.padStart(4, "0")}`,
+			sessionId: request.sessionId,
+			correlationId: request.correlationId,
+			endpoint,
+			at: now,
+			...outcome,
+			request: summarizeRequest(request),
+		};
+
+		const existing = await this.getSession(request.sessionId);
+		const session: HistorySession = existing ?? {
+			sessionId: request.sessionId,
+			subject,
+			firstAt: now,
+			lastAt: now,
+			events: 0,
+			correlationIds: [],
+		};
+		session.lastAt = now;
+		session.events++;
+		if (!session.correlationIds.includes(request.correlationId)) {
+			session.correlationIds.push(request.correlationId);
+		}
+
+		const key = eventKey(event);
+		const entries: Record<string, unknown> = {
+			[key]: event,
+			[correlationKey(event)]: key,
+			[sessionKey(session.sessionId)]: session,
+		};
+		if (!existing && subject !== undefined) {
+			entries[ownerKey(subject, session.sessionId)] = session.sessionId;
+		}
+		await this.storage.put(entries);
+		return { event, newSession: !existing };
+	}
+
+	getSession(sessionId: string): Promise<HistorySession | undefined> {
+		return this.storage.get<HistorySession>(sessionKey(sessionId));
+	}
+
+	// A page of sessions in ID order, starting after `cursor`; only those of `subject` if given
+	async listSessions(
+		limit: number,
+		cursor?: string,
+		subject?: string,
+	): Promise<{ sessions: HistorySession[]; nextCursor?: string }> {
+		let sessions: HistorySession[];
+		if (subject === undefined) {
+			const entries = await this.storage.list<HistorySession>({
+				prefix: SESSION_PREFIX,
+				startAfter: cursor === undefined ? undefined : sessionKey(cursor),
+				limit: limit + 1,
+			});
+			sessions = [...entries.values()];
+		} else {
+			const owned = await this.storage.list<string>({
+				prefix: ownerKey(subject, ""),
+				startAfter: cursor === undefined ? undefined : ownerKey(subject, cursor),
+				limit: limit + 1,
+			});
+			const found = await this.storage.get<HistorySession>(
+				[...owned.values()].map(sessionKey),
+			);
+			sessions = [...found.values()];
+		}
+		const more = sessions.length > limit;
+		return {
+			sessions: sessions.slice(0, limit),
+			nextCursor: more ? sessions[limit - 1].sessionId : undefined,
+		};
+	}
+
+	async sessionEvents(sessionId: string): Promise<HistoryEvent[]> {
+		const entries = await this.storage.list<HistoryEvent>({
+			prefix: `${EVENT_PREFIX}${encodeURIComponent(sessionId)}/`,
+		});
+		return [...entries.values()];
+	}
+
+	// Every event of an interaction, across the sessions that used its correlationId
+	async interactionEvents(correlationId: string): Promise<HistoryEvent[]> {
+		const pointers = await this.storage.list<string>({
+			prefix: `${CORRELATION_PREFIX}${encodeURIComponent(correlationId)}/`,
+		});
+		const keys = [...pointers.values()];
+		const events: HistoryEvent[] = [];
+		for (let i = 0; i < keys.length; i += 128) {
+			const batch = await this.storage.get<HistoryEvent>(keys.slice(i, i + 128));
+			events.push(...batch.values());
+		}
+		return events.sort((a, b) => a.id.localeCompare(b.id));
+	}
+
+	// Deletes sessions idle past retention, with their events, returning how many
+	async sweep(now = Date.now()): Promise<number> {
+		let deleted = 0;
+		for (const session of await this.sessions()) {
+			if (session.lastAt + this.retentionMs > now) {
+				continue;
+			}
+			const events = await this.sessionEvents(session.sessionId);
+			const keys = events.flatMap((event) => [eventKey(event), correlationKey(event)]);
+			keys.push(sessionKey(session.sessionId));
+			if (session.subject !== undefined) {
+				keys.push(ownerKey(session.subject, session.sessionId));
+			}
+			for (let i = 0; i < keys.length; i += 128) {
+				await this.storage.delete(keys.slice(i, i + 128));
+			}
+			deleted++;
+		}
+		return deleted;
+	}
+
+	async nextDeadline(): Promise<number | undefined> {
+		const deadlines = (await this.sessions()).map(
+			(session) => session.lastAt + this.retentionMs,
+		);
+		return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+	}
+
+	private async sessions(): Promise<HistorySession[]> {
+		const entries = await this.storage.list<HistorySession>({ prefix: SESSION_PREFIX });
+		return [...entries.values()];
+	}
+}
+
+export function sessionUri(sessionId: string): string {
+	return `compliq://sessions/${encodeURIComponent(sessionId)}`;
+}
+
+export function interactionUri(correlationId: string): string {
+	return `compliq://interactions/${encodeURIComponent(correlationId)}`;
+}
+
+// IDs are chosen by clients, so they are encoded to keep one ID's prefix from matching another's
+function sessionKey(sessionId: string): string {
+	return `${SESSION_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+function ownerKey(subject: string, sessionId: string): string {
+	return `${OWNER_PREFIX}${encodeURIComponent(subject)}/${encodeURIComponent(sessionId)}`;
+}
+
+function eventKey(event: HistoryEvent): string {
+	return `${EVENT_PREFIX}${encodeURIComponent(event.sessionId)}/${event.id}`;
+}
+
+function correlationKey(event: HistoryEvent): string {
+	return `${CORRELATION_PREFIX}${encodeURIComponent(event.correlationId)}/${event.id}`;
+}
+
+// File bytes are not kept in the log, only what identifies the file
+export function summarizeRequest(request: CompliqRequest): Record<string, unknown> {
+	const { file, ...fields } = request as CompliqRequest & { file?: CompliqFile };
+	if (!file) {
+		return fields;
+	}
+	return {
+		...fields,
+		file: { name: file.name, contentType: file.contentType, size: fileSize(file.data) },
+	};
+}
@@ -0,0 +1,151 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { type CompliqFile, isFileSource } from "./compliq";
+import { logger } from "./logger";
+import { ToolInputError } from "./results";
+
+const log = logger("idempotency");
+
+const KEY_PREFIX = "idempotency:";
+// How often expired keys are swept, at most
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface IdempotencyRecord {
+	// Hash of the arguments the key was first used with
+	fingerprint: string;
+	result: unknown;
+	expiresAt: number;
+}
+
+/**
+ * Remembers the results of recent submissions by idempotency key, so a client that
+ * retries a tool call gets the original result back instead of a second COMPLiQ record.
+ * Only successful (delivered or queued) submissions are remembered; failures may be retried.
+ */
+export class IdempotencyStore {
+	private storage: DurableObjectStorage;
+	private ttlMs: number;
+	// Calls still running, so concurrent duplicates wait for the first instead of racing it
+	private inflight = new Map<string, { fingerprint: string; promise: Promise<unknown> }>();
+	private lastPrunedAt = 0;
+
+	constructor(storage: DurableObjectStorage, ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS) {
+		this.storage = storage;
+		this.ttlMs = ttlMs;
+	}
+
+	/**
+	 * Runs `call` once per key. A repeated key returns the stored result, or is rejected if
+	 * it comes with different arguments.
+	 */
+	async run<T>(key: string, fingerprint: string, call: () => Promise<T>): Promise<T> {
+		const running = this.inflight.get(key);
+		if (running) {
+			checkFingerprint(running.fingerprint, fingerprint);
+			log.info("Waiting for in-flight call", { key });
+			return (await running.promise) as T;
+		}
+
+		const stored = await this.storage.get<IdempotencyRecord>(`${KEY_PREFIX}${key}`);
+		if (stored && stored.expiresAt > Date.now()) {
+			checkFingerprint(stored.fingerprint, fingerprint);
+			log.info("Returning stored result", { key });
+			return stored.result as T;
+		}
+
+		const promise = call();
+		this.inflight.set(key, { fingerprint, promise });
+		try {
+			const result = await promise;
+			const record: IdempotencyRecord = {
+				fingerprint,
+				result,
+				expiresAt: Date.now() + this.ttlMs,
+			};
+			await this.storage.put(`${KEY_PREFIX}${key}`, record);
+			return result;
+		} finally {
+			this.inflight.delete(key);
+			await this.prune();
+		}
+	}
+
+	// Deletes expired keys, at most once per PRUNE_INTERVAL_MS
+	async prune(now = Date.now()) {
+		if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+			return;
+		}
+		this.lastPrunedAt = now;
+
+		const records = await this.storage.list<IdempotencyRecord>({ prefix: KEY_PREFIX });
+		const expired = [...records]
+			.filter(([, record]) => record.expiresAt <= now)
+			.map(([key]) => key);
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.storage.delete(expired.slice(i, i + 128));
+		}
+		if (expired.length > 0) {
+			log.info("Pruned expired keys", { count: expired.length });
+		}
+	}
+}
+
+/**
+ * Hashes the parts of a submission that make it the same record. The timestamp is left
+ * out, since clients that retry often stamp the retry afresh.
+ */
+export async function fingerprintOf(request: object): Promise<string> {
+	const { timestamp, file, ...rest } = request as {
+		timestamp?: string;
+		file?: CompliqFile;
+		[key: string]: unknown;
+	};
+	const fields: Record<string, unknown> = { ...rest };
+	if (file) {
+		const { data, name, contentType } = file;
+		if (isFileSource(data)) {
+			// Staged files can be too large to hash in memory, and their key already identifies them
+			fields.file = { name, contentType, source: data.key, size: data.size };
+		} else {
+			const bytes =
+				data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+			fields.file = { name, contentType, sha256: await sha256(bytes) };
+		}
+	}
+	// Sorted keys, so the hash does not depend on property order
+	const canonical = JSON.stringify(
+		Object.keys(fields)
+			.sort()
+			.map((key) => [key, fields[key]]),
+	);
+	return sha256(new TextEncoder().encode(canonical));
+}
+
+/**
+ * The key a submission is deduplicated under: the client's own key if it sent one,
+ * otherwise one derived from the interaction, the endpoint (one per tool) and the content.
+ */
+export function idempotencyKeyFor(
+	endpoint: string,
+	request: { sessionId: string; correlationId: string },
+	fingerprint: string,
+	clientKey?: string,
+): string {
+	if (clientKey) {
+		return `${endpoint}/client/${clientKey}`;
+	}
+	return `${endpoint}/${request.sessionId}/${request.correlationId}/${fingerprint}`;
+}
+
+function checkFingerprint(stored: string, received: string) {
+	// Reusing a key for different arguments is a client bug, not a retry
+	if (stored !== received) {
+		throw new ToolInputError("Idempotency key was already used with different arguments");
+	}
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
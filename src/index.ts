@@ -1,56 +1,346 @@
 // @ts-ignore: Dynamic imports for Cloudflare Workers
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+// @ts-ignore: Dynamic imports for Cloudflare Workers
+import {
+	ErrorCode,
+	JSONRPCMessageSchema,
+	ListResourcesRequestSchema,
+	McpError,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 // @ts-ignore: Dynamic imports for Cloudflare Workers
 import { z } from "zod";
+import {
+	ADMIN_SCOPE,
+	AuthError,
+	PRINCIPAL_HEADER,
+	type Principal,
+	authenticate,
+	isAuthDisabled,
+	isOAuthEnabled,
+	principalFromAuthInfo,
+	protectedResourceMetadata,
+	requireScope,
+	requireUserId,
+	resolveUserId,
+	safeEqual,
+	toAuthInfo,
+	unauthorizedResponse,
+} from "./auth";
+import {
+	DEFAULT_TENANT,
+	TENANT_HEADER,
+	type TenantConfig,
+	TenantError,
+	authorizeTenant,
+	getTenantConfig,
+	getTenantConfigs,
+	isKnownTenant,
+	isValidTenant,
+	parseTenantPath,
+	resolveTenant,
+} from "./tenants";
+import type { TenantRecord } from "./registry";
+import {
+	CompliqClient,
+	CompliqError,
+	type CompliqFile,
+	type CompliqRecord,
+	type CompliqRequests,
+	decodeBase64,
+} from "./compliq";
+import { parseAttachmentLimits, validateAttachment } from "./attachments";
+import {
+	type HistoryEvent,
+	type HistorySession,
+	HistoryStore,
+	interactionUri,
+	sessionUri,
+} from "./history";
+import {
+	type Checks,
+	DEFAULT_READY_MAX_BACKLOG,
+	READY_TIMEOUT_MS,
+	type UpstreamCall,
+	checkBacklog,
+	checkUpstream,
+	readinessReport,
+	withTimeout,
+} from "./health";
+import { IdempotencyStore, fingerprintOf, idempotencyKeyFor } from "./idempotency";
+import { type Interaction, type InteractionEnforcement, InteractionTracker } from "./interactions";
+import {
+	type PolicyResult,
+	type PolicyTarget,
+	PolicyStore,
+	evaluatePolicy,
+	violationMarker,
+} from "./policies";
+import { type LimitKeys, RateLimitError, RateLimiter, resolveLimits } from "./limits";
+import { type SseSession, SseSessionStore, formatEventId, parseEventId } from "./sse";
+import { McpSessionStore } from "./sessions";
+import {
+	type AuditEntry,
+	type AuditSink,
+	type SinkDelivery,
+	type SinkReport,
+	auditEntryId,
+	createSinks,
+	listStoredEntries,
+	resolveSinks,
+} from "./sinks";
+import {
+	TRACE_HEADER,
+	currentTrace,
+	logger,
+	setLogLevel,
+	traceIdFrom,
+	withTrace,
+} from "./logger";
+import { Metrics, type MetricsSnapshot, renderPrometheus } from "./metrics";
+import { chatTurnPrompt, fileInteractionPrompt, ragAnswerPrompt } from "./prompts";
+import {
+	type RedactionReport,
+	Redactor,
+	parseRedactionConfig,
+	summarizeRedaction,
+} from "./redaction";
+import {
+	type SubmitResult,
+	acceptedFields,
+	checkComplianceOutput,
+	deadLetterQueueOutput,
+	describePolicyResult,
+	describeQuotaStatus,
+	describeSubmission,
+	interactionStatusOutput,
+	logInteractionOutput,
+	policyPackOutput,
+	policyPackSchema,
+	previewRedactionOutput,
+	quotaStatusOutput,
+	submissionOutput,
+} from "./schemas";
+import { type Upload, UploadError, UploadStore, uploadUri } from "./uploads";
+import { type DeadLetter, Outbox, type QueuedSubmission, orderKeyFor } from "./outbox";
+import { ToolInputError, describeError, toolError, toolResult } from "./results";
+import {
+	type CompliqEndpoint,
+	type CompliqTarget,
+	resolveTarget,
+	validateTarget,
+} from "./targets";
+import {
+	DEFAULT_TIME_ZONE,
+	formatTimestamp,
+	normalizeProcessingTime,
+	normalizeTimestamp,
+	processingTimeBetween,
+	validateTimeZone,
+} from "./timestamps";
+import { type MessageContext, WorkerTransport } from "./transport";
+
+export { TenantRegistry } from "./registry";
 
 // Import Cloudflare Worker types
 import type { 
 		DurableObjectNamespace, 
 		DurableObjectState,
-		ExecutionContext
+		ExecutionContext,
+		R2Bucket,
+		WebSocket
 } from '@cloudflare/workers-types';
 
 // Define the environment interface
 export interface Env {
 	COMPLIQ_API_KEY: string;
 	MCP_OBJECT: DurableObjectNamespace;
+	TENANT_REGISTRY: DurableObjectNamespace;
+	// JSON object of tenant name -> TenantConfig
+	TENANTS?: string;
+	DEFAULT_TENANT?: string;
+	// Comma-separated tenants that clients whose credentials name no tenant may pick by path
+	SHARED_TENANTS?: string;
+	ADMIN_TOKEN?: string;
+	// JSON object of bearer token -> { subject, userId?, tenant?, scopes? }
+	AUTH_TOKENS?: string;
+	OAUTH_ISSUER?: string;
+	OAUTH_JWKS_URL?: string;
+	OAUTH_AUDIENCE?: string;
+	OAUTH_RESOURCE?: string;
+	OAUTH_TENANT_CLAIM?: string;
+	OAUTH_SCOPES?: string;
+	// Set to "true" to accept unauthenticated clients, e.g. in local development
+	AUTH_DISABLED?: string;
+	// Named COMPLiQ backend (staging, production, local, or one from COMPLIQ_ENVIRONMENTS)
+	COMPLIQ_ENVIRONMENT?: string;
+	COMPLIQ_BASE_URL?: string;
+	// JSON object of environment name -> { baseUrl?, paths? }
+	COMPLIQ_ENVIRONMENTS?: string;
+	COMPLIQ_TIMEOUT_MS?: string;
+	// IANA time zone that timestamps are written in (default UTC)
+	COMPLIQ_TIME_ZONE?: string;
+	// Retry policy for submissions that could not be delivered right away
+	OUTBOX_MAX_ATTEMPTS?: string;
+	OUTBOX_BASE_DELAY_MS?: string;
+	// How long a tool call's idempotency key is remembered
+	IDEMPOTENCY_TTL_MS?: string;
+	// How long an interaction may stay open before it is flagged as stale
+	INTERACTION_TIMEOUT_MS?: string;
+	// "reject" or "flag" (default) tool calls made out of order
+	INTERACTION_ENFORCEMENT?: string;
+	// Limits for files staged with PUT /uploads/{id}
+	MAX_UPLOAD_BYTES?: string;
+	UPLOAD_TTL_MS?: string;
+	// JSON object of file type (pdf, png, ...) -> byte limit, overriding the defaults
+	ATTACHMENT_MAX_BYTES?: string;
+	// How long a session's submission history is kept after its last submission
+	HISTORY_RETENTION_MS?: string;
+	// How long an SSE session can be resumed after its stream closed, and how many events it replays
+	SSE_RETENTION_MS?: string;
+	SSE_BUFFER_EVENTS?: string;
+	// How often open SSE streams get a heartbeat (default 30 seconds)
+	KEEPALIVE_INTERVAL_MS?: string;
+	// How long an unused Streamable HTTP session is kept (default 24 hours)
+	MCP_SESSION_TTL_MS?: string;
+	// JSON list of SinkConfig that every submission is written to (default COMPLiQ alone)
+	AUDIT_SINKS?: string;
+	// Default bucket of "r2" audit sinks
+	AUDIT_ARCHIVE?: R2Bucket;
+	// JSON RedactionConfig for text content sent to COMPLiQ; tenants can set their own
+	REDACTION_CONFIG?: string;
+	// Secret for the "hash" redaction action
+	REDACTION_HASH_KEY?: string;
+	// JSON LimitsConfig of rate limits and daily upload quotas; tenants can override fields
+	RATE_LIMITS?: string;
+	// Queued submissions above which /ready fails (default 1000)
+	READY_MAX_BACKLOG?: string;
+	// Lowest level that is logged: debug, info (default), warn or error
+	LOG_LEVEL?: string;
+}
+
+const log = logger("mcp");
+const sseLog = logger("sse");
+const workerLog = logger("worker");
+
+const SERVER_INFO = {
+	name: "COMPLiQ MCP Server",
+	version: "1.0.0",
+};
+
+const DEFAULT_KEEPALIVE_INTERVAL_MS = 30 * 1000;
+
+// Kept as the attachment of a WebSocket on /ws, so it survives the object hibernating
+interface SocketSession {
+	sessionId: string;
+	principal?: Principal;
+	connectedAt: number;
+	// Resource URIs the session subscribed to
+	subscriptions: string[];
+}
+
+// An open event stream on /sse, keyed by its session ID
+interface SseClient {
+	session: SseSession;
+	writer: WritableStreamDefaultWriter;
+	// ID of the last event written to this stream
+	cursor: number;
+	// Settles once the pending flush has written its events
+	flushed: Promise<void>;
 }
 
 // Define our MCP Durable Object class
 export class MyMCP {
 	server: any;
+	transport = new WorkerTransport();
 	state: DurableObjectState;
 	env: Env;
 	initialized = false;
-	sseClients = new Set<{ writer: WritableStreamDefaultWriter, interval: any }>();
+	tenant?: string;
+	tenantConfig: TenantConfig = {};
+	target?: CompliqTarget;
+	client?: CompliqClient;
+	sinks: AuditSink[] = [];
+	timeZone = DEFAULT_TIME_ZONE;
+	attachmentLimits: Record<string, number> = {};
+	redactor = new Redactor();
+	outbox: Outbox;
+	idempotency: IdempotencyStore;
+	interactions: InteractionTracker;
+	uploads: UploadStore;
+	policies: PolicyStore;
+	history: HistoryStore;
+	sseSessions: SseSessionStore;
+	limits: RateLimiter;
+	metrics = new Metrics();
+	// Kept in memory only; after a restart /ready probes COMPLiQ instead
+	lastUpstream?: UpstreamCall;
+	// Resource URI -> SSE and WebSocket sessions that asked to be told when it changes
+	resourceSubscriptions = new Map<string, Set<string>>();
+	sseClients = new Map<string, SseClient>();
+	// Names of the tools initializeTools registered, so metrics only label calls to real tools
+	toolNames = new Set<string>();
+	mcpSessions: McpSessionStore;
+	keepaliveMs: number;
 	private msSinceEpoch = Date.now();
 
 	constructor(state: DurableObjectState, env: Env) {
 		this.state = state;
 		this.env = env;
-		// Initialize the server with name and version
-		this.server = new McpServer({
-			name: "COMPLiQ MCP Server",
-			version: "1.0.0",
+		this.outbox = new Outbox(state.storage, {
+			maxAttempts: numberVar(env, "OUTBOX_MAX_ATTEMPTS"),
+			baseDelayMs: numberVar(env, "OUTBOX_BASE_DELAY_MS"),
+		});
+		this.idempotency = new IdempotencyStore(
+			state.storage,
+			numberVar(env, "IDEMPOTENCY_TTL_MS"),
+		);
+		this.interactions = new InteractionTracker(state.storage, {
+			timeoutMs: numberVar(env, "INTERACTION_TIMEOUT_MS"),
+			enforcement: enforcementVar(env),
 		});
-		console.log(`MyMCP instance created at ${new Date().toISOString()}`);
+		this.uploads = new UploadStore(state.storage, {
+			maxBytes: numberVar(env, "MAX_UPLOAD_BYTES"),
+			ttlMs: numberVar(env, "UPLOAD_TTL_MS"),
+		});
+		this.policies = new PolicyStore(state.storage);
+		this.history = new HistoryStore(
+			state.storage,
+			numberVar(env, "HISTORY_RETENTION_MS"),
+		);
+		this.sseSessions = new SseSessionStore(state.storage, {
+			retentionMs: numberVar(env, "SSE_RETENTION_MS"),
+			maxEvents: numberVar(env, "SSE_BUFFER_EVENTS"),
+		});
+		this.mcpSessions = new McpSessionStore(
+			state.storage,
+			numberVar(env, "MCP_SESSION_TTL_MS"),
+		);
+		this.keepaliveMs = numberVar(env, "KEEPALIVE_INTERVAL_MS") ?? DEFAULT_KEEPALIVE_INTERVAL_MS;
+		// Replaced with the tenant's limits once it is known
+		this.limits = new RateLimiter(state.storage);
+		this.transport.onoutbound = (message, context) => this.routeOutbound(message, context);
+		// Answered by the runtime, so client keepalives on /ws do not wake a hibernating object
+		state.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
+		setLogLevel(env.LOG_LEVEL);
+		log.info("Durable Object created");
 	}
 
+	// Runs the request under the trace ID the worker passed on, so every line it logs carries it
 	async fetch(request: Request): Promise<Response> {
-		// Log basic request info
-		console.log(`DO received ${request.method} request to ${new URL(request.url).pathname}`);
+		const tenant = this.tenant ?? request.headers.get(TENANT_HEADER) ?? undefined;
+		return withTrace({ traceId: traceIdFrom(request), tenant }, () => this.handleRequest(request));
+	}
+
+	async handleRequest(request: Request): Promise<Response> {
+		log.debug("Request received", { method: request.method, path: new URL(request.url).pathname });
 		
-		// Initialize server if not already done
-		if (!this.initialized) {
-			console.log("Server not yet initialized, initializing now...");
-			try {
-				await this.initServer();
-				this.initialized = true;
-				console.log("Server initialization completed successfully");
-			} catch (error) {
-				console.error("Server initialization failed:", error);
-				return new Response(`Server initialization failed: ${error}`, { status: 500 });
-			}
+		try {
+			await this.ensureInitialized(request.headers.get(TENANT_HEADER));
+		} catch (error) {
+			return new Response(`Server initialization failed: ${error}`, { status: 500 });
 		}
 		
 		// Add CORS headers if this is an OPTIONS request
@@ -60,105 +350,699 @@ export class MyMCP {
 
 		// Add CORS headers to all responses
 		const url = new URL(request.url);
+		const { route } = parseTenantPath(url.pathname);
+		
+		// Limits are kept per tenant, so a made-up tenant must not get fresh ones
+		const clientRoute = route === "/mcp" || route === "/sse" || route === "/sse/message" || route === "/ws" || route.startsWith("/uploads/");
+		if (clientRoute && !isKnownTenant(this.env, this.tenant ?? DEFAULT_TENANT)) {
+			await drainBody(request);
+			return this.addCorsHeaders(new Response(`Unknown tenant: ${this.tenant}`, { status: 404 }));
+		}
+		
+		// One runaway client must not use up the tenant's COMPLiQ quota for everyone
+		if (route === "/mcp" || route === "/sse/message" || route.startsWith("/uploads/")) {
+			try {
+				await this.limits.take({ tenant: true });
+			} catch (error) {
+				if (!(error instanceof RateLimitError)) {
+					throw error;
+				}
+				await drainBody(request);
+				return this.addCorsHeaders(this.rateLimitedResponse(route, error));
+			}
+		}
 		
-		// Handle SSE connections
-		if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-			console.log("Handling SSE connection request");
+		// Handle SSE connections and their message back-channel
+		if (route === "/sse" || route === "/sse/message") {
 			try {
-				const response = await this.handleSse(request);
+				const response =
+					route === "/sse/message"
+						? await this.handleSseMessage(request)
+						: await this.handleSse(request);
 				return this.addCorsHeaders(response);
 			} catch (error) {
-				console.error("Error handling SSE request:", error);
+				sseLog.error("Request failed", { error });
 				return this.addCorsHeaders(
 					new Response(`SSE error: ${error}`, { status: 500 })
 				);
 			}
 		}
 		
+		// MCP over a WebSocket; the upgrade response cannot be copied to add CORS headers
+		if (route === "/ws") {
+			return this.handleWebSocket(request);
+		}
+		
 		// Handle MCP requests
-		if (url.pathname === "/mcp") {
-			console.log("Handling MCP request");
+		if (route === "/mcp") {
 			try {
 				const response = await this.handleMcp(request);
 				return this.addCorsHeaders(response);
 			} catch (error) {
-				console.error("Error handling MCP request:", error);
+				log.error("MCP request failed", { error });
 				return this.addCorsHeaders(
 					new Response(`MCP error: ${error}`, { status: 500 })
 				);
 			}
 		}
 		
+		// Staged file uploads
+		if (route.startsWith("/uploads/")) {
+			return this.addCorsHeaders(await this.handleUpload(request, route.slice("/uploads/".length)));
+		}
+		
+		// Dead-letter administration; the worker only forwards here after checking admin auth
+		if (route.startsWith("/admin/dead-letters")) {
+			return this.handleDeadLetterAdmin(request, route);
+		}
+		
+		// What "storage" audit sinks kept; admin only, like dead letters
+		if (route === "/admin/audit") {
+			return this.handleAuditAdmin(request);
+		}
+		
+		// The tenant's part of /ready; the worker never forwards client requests here
+		if (route === "/ready") {
+			return this.jsonResponse({ checks: await this.readiness() });
+		}
+		
+		// This tenant's counters, for the worker's /metrics; never forwarded from clients either
+		if (route === "/metrics") {
+			return this.jsonResponse(this.metrics.snapshot());
+		}
+		
 		// Return 404 for other paths
 		return this.addCorsHeaders(new Response("Not found", { status: 404 }));
 	}
 
+	async ensureInitialized(tenantHeader?: string | null) {
+		// Learn which tenant this object serves before anything touches credentials
+		if (!this.tenant) {
+			await this.loadTenant(tenantHeader ?? null);
+		}
+		
+		// Initialize server if not already done
+		if (!this.initialized) {
+			try {
+				await this.initServer();
+				this.initialized = true;
+				log.info("Server initialized");
+			} catch (error) {
+				log.error("Server initialization failed", { error });
+				throw error;
+			}
+		}
+	}
+
+	// Retries queued submissions and sweeps interactions; also runs after the object was evicted
+	async alarm() {
+		await withTrace({ traceId: crypto.randomUUID(), tenant: this.tenant }, () => this.runAlarm());
+	}
+
+	async runAlarm() {
+		await this.ensureInitialized();
+		this.sendHeartbeats();
+		const summary = await this.outbox.deliverDue(async (endpoint, request) => {
+			const record = await this.send(endpoint, request);
+			await this.logSubmission(endpoint, request, { source: "outbox", status: "delivered", response: record });
+			return record;
+		});
+		const stale = await this.interactions.sweep();
+		const expired = await this.uploads.sweep();
+		const forgotten = await this.history.sweep();
+		const closed = await this.sseSessions.sweep();
+		for (const session of closed) {
+			this.removeSubscriptions(session.sessionId);
+		}
+		const unused = await this.mcpSessions.sweep();
+		log.info("Alarm run finished", {
+			outbox: summary,
+			staleInteractions: stale,
+			expiredUploads: expired,
+			idleSessions: forgotten,
+			expiredSseSessions: closed.length,
+			expiredMcpSessions: unused,
+		});
+
+		const next = [
+			await this.outbox.nextAttemptAt(),
+			await this.interactions.nextDeadline(),
+			await this.uploads.nextDeadline(),
+			await this.history.nextDeadline(),
+			await this.sseSessions.nextDeadline(),
+			await this.mcpSessions.nextDeadline(),
+			this.sseClients.size > 0 ? Date.now() + this.keepaliveMs : undefined,
+		].filter((at): at is number => at !== undefined);
+		if (next.length > 0) {
+			await this.scheduleAlarm(Math.min(...next));
+		}
+	}
+
+	// Makes sure the alarm fires no later than `at`, without pushing back an earlier one
+	async scheduleAlarm(at: number) {
+		const current = await this.state.storage.getAlarm();
+		if (current === null || at < current) {
+			await this.state.storage.setAlarm(at);
+		}
+	}
+
+	/**
+	 * Sends a submission to COMPLiQ at most once per idempotency key; a repeated call gets
+	 * the first call's result back. New submissions also move their interaction along.
+	 * Prompts and answers are checked against the policy pack; blocked ones are still sent,
+	 * marked as violations. Text content is redacted before it is sent or queued.
+	 */
+	async submit<E extends CompliqEndpoint>(
+		endpoint: E,
+		draft: SubmissionDraft<E>,
+		idempotencyKey?: string,
+		authInfo?: AuthInfo,
+	): Promise<SubmitResult> {
+		const subject = principalFromAuthInfo(authInfo)?.subject;
+		const normalized = this.normalizeTimes(draft);
+		// Fingerprinted before the server fills in times, so a retry matches the original
+		const fingerprint = await fingerprintOf(normalized);
+		const key = idempotencyKeyFor(endpoint, normalized, fingerprint, idempotencyKey);
+		return this.idempotency.run(key, fingerprint, async () => {
+			const problem = await this.interactions.check(endpoint, normalized);
+			const compliance = await this.checkPolicy(endpoint, normalized);
+			let checked = normalized;
+			if (compliance?.decision === "block") {
+				checked = { ...normalized, policyViolation: violationMarker(compliance) };
+			}
+			const { draft: redacted, redaction } = await this.redact(checked);
+			const request = await this.completeTimes(endpoint, redacted);
+			// Charged here, so only files that passed validation count, once per idempotency key
+			const inline = inlineFileBytes(request);
+			const user = this.limitKeysFor({ authInfo }).user;
+			await this.limits.chargeBytes(user, inline);
+			if (inline > 0) {
+				this.metrics.uploaded("inline", inline);
+			}
+			let delivery: SinkDelivery;
+			let sinks: SinkReport[];
+			try {
+				({ delivery, sinks } = await this.writeToSinks(endpoint, request));
+			} catch (error) {
+				// A failed call is not remembered, so its retry is charged again
+				await this.limits.refundBytes(user, inline);
+				await this.logSubmission(endpoint, request, { source: "tool", status: "failed", error: describeError(error) }, subject);
+				throw error;
+			}
+			await this.logSubmission(endpoint, request, {
+				source: "tool",
+				status: delivery.status,
+				response: delivery.record ?? delivery,
+			}, subject);
+			const interaction = await this.interactions.record(endpoint, request, subject);
+			await this.scheduleAlarm(this.interactions.deadline(interaction));
+			const failedSinks = sinks
+				.filter((report) => report.status === "failed")
+				.map((report) => `Sink ${report.sink} failed: ${report.error?.message}`);
+			return {
+				...(delivery as Pick<SubmitResult, "status" | "recordId" | "record" | "reason" | "nextAttemptAt">),
+				sinks,
+				accepted: acceptedFields(request),
+				warnings: [
+					...(compliance?.reasons.map((reason) => reason.message) ?? []),
+					...(problem ? [problem] : []),
+					...failedSinks,
+				],
+				redaction,
+				compliance,
+			};
+		});
+	}
+
+	// Checks a prompt or answer against the tenant's policy pack, if it has one
+	async checkPolicy<E extends CompliqEndpoint>(
+		endpoint: E,
+		draft: SubmissionDraft<E>,
+	): Promise<PolicyResult | undefined> {
+		const target = POLICY_TARGETS[endpoint];
+		const content = (draft as { content?: unknown }).content;
+		const pack = await this.policies.get();
+		if (!target || !pack || typeof content !== "string") {
+			return undefined;
+		}
+		const result = evaluatePolicy(pack, target, content);
+		if (result.decision !== "allow") {
+			log.warn("Policy pack did not allow content", {
+				sessionId: draft.sessionId,
+				correlationId: draft.correlationId,
+				target,
+				decision: result.decision,
+				reasons: result.reasons.map((reason) => reason.message),
+			});
+		}
+		return result;
+	}
+
+	// Adds a submission to the history and tells subscribers its session and interaction changed
+	async logSubmission(
+		endpoint: CompliqEndpoint,
+		request: CompliqRequests[CompliqEndpoint],
+		outcome: Pick<HistoryEvent, "source" | "status" | "response" | "error">,
+		subject?: string,
+	) {
+		const { event, newSession } = await this.history.record(endpoint, request, outcome, subject);
+		if (newSession) {
+			this.server.sendResourceListChanged();
+		}
+		this.notifyResourceUpdated(sessionUri(event.sessionId));
+		this.notifyResourceUpdated(interactionUri(event.correlationId));
+	}
+
+	// The events of an interaction that are in sessions the caller may read
+	async readableEvents(correlationId: string, authInfo?: AuthInfo): Promise<HistoryEvent[]> {
+		const events = await this.history.interactionEvents(correlationId);
+		const readable = new Set<string>();
+		for (const sessionId of new Set(events.map((event) => event.sessionId))) {
+			const session = await this.history.getSession(sessionId);
+			if (session && mayRead(session, authInfo)) {
+				readable.add(sessionId);
+			}
+		}
+		return events.filter((event) => readable.has(event.sessionId));
+	}
+
+	// Resources nobody has logged to yet may be subscribed to ahead; others only by who may read them
+	async maySubscribe(uri: string, authInfo?: AuthInfo): Promise<boolean> {
+		const [, kind, id] = HISTORY_URI.exec(uri)!;
+		const key = decodeURIComponent(id);
+		if (kind === "sessions") {
+			const session = await this.history.getSession(key);
+			return !session || mayRead(session, authInfo);
+		}
+		const events = await this.history.interactionEvents(key);
+		return events.length === 0 || (await this.readableEvents(key, authInfo)).length > 0;
+	}
+
+	notifyResourceUpdated(uri: string) {
+		for (const sessionId of this.resourceSubscriptions.get(uri) ?? []) {
+			this.routeOutbound(
+				{ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri } },
+				{ sessionId },
+			);
+		}
+	}
+
+	// Redacts a submission's text content, reporting how many values each rule caught
+	async redact<E extends CompliqEndpoint>(
+		draft: SubmissionDraft<E>,
+	): Promise<{ draft: SubmissionDraft<E>; redaction: RedactionReport }> {
+		const content = (draft as { content?: unknown }).content;
+		if (typeof content !== "string") {
+			return { draft, redaction: summarizeRedaction([]) };
+		}
+		const { text, matches } = await this.redactor.redact(content);
+		const redaction = summarizeRedaction(matches);
+		if (redaction.redacted > 0) {
+			log.info("Redacted content", { redacted: redaction.redacted, rules: redaction.rules });
+		}
+		return { draft: { ...draft, content: text }, redaction };
+	}
+
+	/**
+	 * Resolves a tool's file arguments and checks the file against the attachment allow-list.
+	 * A staged upload's name and type apply unless overridden.
+	 */
+	async fileFrom(args: FileArgs, authInfo?: AuthInfo): Promise<CompliqFile | undefined> {
+		if (args.uploadId) {
+			if (args.fileBase64) {
+				throw new ToolInputError("Pass either fileBase64 or uploadId, not both");
+			}
+			const file = await this.uploads.open(args.uploadId, principalFromAuthInfo(authInfo)?.subject);
+			return validateAttachment(
+				{
+					...file,
+					name: args.fileName ?? file.name,
+					contentType: args.fileContentType ?? file.contentType,
+				},
+				this.attachmentLimits,
+			);
+		}
+		if (args.fileBase64 && args.fileName && args.fileContentType) {
+			const data = decodeBase64(args.fileBase64);
+			return validateAttachment(
+				{ data, name: args.fileName, contentType: args.fileContentType },
+				this.attachmentLimits,
+			);
+		}
+		return undefined;
+	}
+
+	// Validates the times a client supplied and brings them into COMPLiQ's format
+	normalizeTimes<E extends CompliqEndpoint>(draft: SubmissionDraft<E>): SubmissionDraft<E> {
+		const normalized = { ...draft };
+		if (draft.timestamp !== undefined) {
+			normalized.timestamp = normalizeTimestamp(draft.timestamp, this.timeZone);
+		}
+		if (draft.processingTime !== undefined) {
+			normalized.processingTime = normalizeProcessingTime(draft.processingTime);
+		}
+		return normalized;
+	}
+
+	/**
+	 * Fills in the times a client left out: the timestamp is now, and an output's
+	 * processingTime is the time since the interaction's inputPrompt.
+	 */
+	async completeTimes<E extends CompliqEndpoint>(
+		endpoint: E,
+		draft: SubmissionDraft<E>,
+	): Promise<CompliqRequests[E]> {
+		const timestamp = draft.timestamp ?? formatTimestamp(new Date(), this.timeZone);
+		if (endpoint !== "output" || draft.processingTime !== undefined) {
+			return { ...draft, timestamp } as CompliqRequests[E];
+		}
+
+		const interaction = await this.interactions.get(draft.sessionId, draft.correlationId);
+		if (!interaction?.promptTimestamp) {
+			throw new ToolInputError(
+				"processingTime is required because no inputPrompt was recorded for this correlationId",
+			);
+		}
+		const processingTime = processingTimeBetween(interaction.promptTimestamp, timestamp);
+		return { ...draft, timestamp, processingTime } as CompliqRequests[E];
+	}
+
+	/**
+	 * Writes a submission to all of the tenant's audit sinks at once, each reporting its own
+	 * outcome. The first sink in the list that took it speaks for the call. The call fails if
+	 * none did, or if COMPLiQ refused it: other sinks cannot stand in for the record of truth,
+	 * and a failed call is not remembered, so a retry reaches COMPLiQ again.
+	 */
+	async writeToSinks(
+		endpoint: CompliqEndpoint,
+		request: CompliqRequests[CompliqEndpoint],
+	): Promise<{ delivery: SinkDelivery; sinks: SinkReport[] }> {
+		const entry: AuditEntry = {
+			id: auditEntryId(),
+			tenant: this.tenant ?? DEFAULT_TENANT,
+			endpoint,
+			request,
+			at: Date.now(),
+		};
+		const outcomes = await Promise.allSettled(this.sinks.map((sink) => sink.write(entry)));
+		const sinks = outcomes.map((outcome, index): SinkReport => {
+			const sink = this.sinks[index];
+			if (outcome.status === "rejected") {
+				this.metrics.sinkWrite(sink.name, "failed");
+				log.warn("Audit sink failed", { sink: sink.name, error: outcome.reason });
+				return { sink: sink.name, type: sink.type, status: "failed", error: describeError(outcome.reason) };
+			}
+			this.metrics.sinkWrite(sink.name, outcome.value.status);
+			return { sink: sink.name, type: sink.type, status: outcome.value.status, recordId: outcome.value.recordId };
+		});
+		const refused = outcomes.find(
+			(outcome, index): outcome is PromiseRejectedResult =>
+				outcome.status === "rejected" && this.sinks[index].type === "compliq",
+		);
+		if (refused) {
+			throw refused.reason;
+		}
+		const accepted = outcomes.find(
+			(outcome): outcome is PromiseFulfilledResult<SinkDelivery> => outcome.status === "fulfilled",
+		);
+		if (!accepted) {
+			throw (outcomes[0] as PromiseRejectedResult).reason;
+		}
+		return { delivery: accepted.value, sinks };
+	}
+
+	/**
+	 * Sends a submission to COMPLiQ. If it cannot be delivered now, or earlier submissions
+	 * for the same interaction are still waiting, it is queued for the alarm to deliver.
+	 */
+	async deliver<E extends CompliqEndpoint>(
+		endpoint: E,
+		request: CompliqRequests[E],
+	): Promise<CompliqRecord | QueuedResult> {
+		const orderKey = orderKeyFor(request);
+		let reason = "Earlier submissions for this interaction are still queued or dead-lettered";
+		if (await this.outbox.hasPending(orderKey)) {
+			await this.outbox.enqueue(endpoint, request);
+		} else {
+			try {
+				return await this.send(endpoint, request);
+			} catch (error) {
+				if (!(error instanceof CompliqError) || !error.retryable) {
+					throw error;
+				}
+				await this.outbox.enqueue(endpoint, request, error);
+				reason = error.message;
+			}
+		}
+
+		// None while a dead letter holds the interaction back
+		const nextAttemptAt = await this.outbox.nextAttemptAt(orderKey);
+		if (nextAttemptAt === undefined) {
+			return { status: "queued", reason };
+		}
+		await this.scheduleAlarm(nextAttemptAt);
+		return { status: "queued", reason, nextAttemptAt: new Date(nextAttemptAt).toISOString() };
+	}
+
+	// Sends to COMPLiQ, remembering whether it could be reached for /ready
+	async send<E extends CompliqEndpoint>(endpoint: E, request: CompliqRequests[E]): Promise<CompliqRecord> {
+		try {
+			const record = await this.client!.submit(endpoint, request);
+			this.lastUpstream = { at: Date.now(), ok: true };
+			log.info("Sent to COMPLiQ", { endpoint, recordId: record?.id });
+			return record;
+		} catch (error) {
+			// A submission COMPLiQ rejected still reached it
+			const reached = error instanceof CompliqError && error.kind === "compliq_validation";
+			this.lastUpstream = { at: Date.now(), ok: reached, error: (error as Error).message };
+			log.warn("COMPLiQ did not accept submission", { endpoint, error });
+			throw error;
+		}
+	}
+
+	// The checks of /ready that need the tenant's state: COMPLiQ and the outbox backlog
+	async readiness(): Promise<Checks> {
+		const maxBacklog = numberVar(this.env, "READY_MAX_BACKLOG") ?? DEFAULT_READY_MAX_BACKLOG;
+		const pending = await this.outbox.pending();
+		const deadLetters = await this.outbox.deadLetters();
+		return {
+			upstream: await checkUpstream(this.target!.baseUrl, this.lastUpstream),
+			backlog: checkBacklog(pending.length, deadLetters.length, maxBacklog),
+		};
+	}
+
+	async handleUpload(request: Request, id: string): Promise<Response> {
+		const owner = this.principalFor(request)?.subject;
+		try {
+			if (request.method === "PUT") {
+				const user = this.limitKeysFor({ authInfo: this.authInfoFor(request) }).user;
+				// Counted up front when the size is known, so a body over quota is never stored
+				const length = request.headers.get("Content-Length");
+				if (length !== null && !/^\d+$/.test(length)) {
+					throw new UploadError("Invalid Content-Length");
+				}
+				const charged = length === null ? 0 : Number(length);
+				await this.limits.chargeBytes(user, charged);
+				const before = request.headers.has("Content-Range") ? ((await this.uploads.get(id))?.size ?? 0) : 0;
+				let upload: Upload;
+				try {
+					upload = await this.uploads.write(id, request, owner);
+				} catch (error) {
+					// Nothing of a failed write is kept
+					await this.limits.refundBytes(user, charged);
+					throw error;
+				}
+				if (length === null) {
+					try {
+						await this.limits.chargeBytes(user, upload.size - before);
+					} catch (error) {
+						await this.uploads.delete(id);
+						throw error;
+					}
+				}
+				this.metrics.uploaded("upload", upload.size - before);
+				await this.scheduleAlarm(upload.expiresAt);
+				return this.jsonResponse(describeUpload(upload), upload.complete ? 201 : 202);
+			}
+			const upload = await this.uploads.get(id);
+			if (!upload || upload.owner !== owner) {
+				return new Response("Upload not found", { status: 404 });
+			}
+			if (request.method === "GET") {
+				return this.jsonResponse(describeUpload(upload));
+			}
+			if (request.method === "DELETE") {
+				await this.uploads.delete(id);
+				return new Response(null, { status: 204 });
+			}
+			return new Response("Method not allowed", { status: 405, headers: { Allow: "PUT, GET, DELETE" } });
+		} catch (error) {
+			await drainBody(request);
+			if (error instanceof UploadError) {
+				return this.jsonResponse({ error: error.message }, error.status);
+			}
+			if (error instanceof RateLimitError) {
+				return this.rateLimitedResponse(`/uploads/${id}`, error);
+			}
+			throw error;
+		}
+	}
+
+	async handleAuditAdmin(request: Request): Promise<Response> {
+		if (request.method !== "GET") {
+			return new Response("Method not allowed", { status: 405, headers: { Allow: "GET" } });
+		}
+		const url = new URL(request.url);
+		const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || AUDIT_PAGE_SIZE, 1), 1000);
+		const cursor = url.searchParams.get("cursor") ?? undefined;
+		return this.jsonResponse(await listStoredEntries(this.state.storage, limit, cursor));
+	}
+
+	async handleDeadLetterAdmin(request: Request, route: string): Promise<Response> {
+		const url = new URL(request.url);
+		const ids = url.searchParams.getAll("id");
+		const selected = ids.length > 0 ? ids : undefined;
+
+		if (request.method === "GET" && route === "/admin/dead-letters") {
+			return this.jsonResponse({
+				pending: (await this.outbox.pending()).map(summarizeSubmission),
+				deadLetters: (await this.outbox.deadLetters()).map(summarizeSubmission),
+			});
+		}
+		if (request.method === "POST" && route === "/admin/dead-letters/replay") {
+			const replayed = await this.outbox.replay(selected);
+			await this.scheduleAlarm(Date.now());
+			return this.jsonResponse({ replayed });
+		}
+		if (request.method === "DELETE" && route === "/admin/dead-letters") {
+			const purged = await this.outbox.purge(selected);
+			await this.scheduleAlarm(Date.now());
+			return this.jsonResponse({ purged });
+		}
+		return new Response("Not found", { status: 404 });
+	}
+
+	// Binds this object to its tenant, remembering the name across restarts
+	async loadTenant(fromHeader: string | null) {
+		const stored = await this.state.storage.get<string>("tenant");
+		const tenant = stored ?? fromHeader;
+		if (!tenant) {
+			return;
+		}
+		if (!stored) {
+			await this.state.storage.put("tenant", tenant);
+			await this.registerTenant(tenant);
+		}
+		this.tenant = tenant;
+		this.tenantConfig = getTenantConfig(this.env, tenant);
+		log.info("Bound to tenant", { tenant });
+	}
+
+	async registerTenant(tenant: string) {
+		try {
+			const registry = this.env.TENANT_REGISTRY.get(this.env.TENANT_REGISTRY.idFromName("registry"));
+			await registry.fetch("https://registry/register", {
+				method: "POST",
+				body: JSON.stringify({ tenant }),
+			});
+		} catch (error) {
+			// Only the admin listing depends on this, so never fail the request over it
+			log.error("Failed to register tenant", { tenant, error });
+		}
+	}
+
+	// The principal the worker authenticated for this request, if any
+	principalFor(request: Request): Principal | undefined {
+		const header = request.headers.get(PRINCIPAL_HEADER);
+		return header ? JSON.parse(header) : undefined;
+	}
+
+	authInfoFor(request: Request): AuthInfo | undefined {
+		const principal = this.principalFor(request);
+		if (!principal) {
+			return undefined;
+		}
+		const token =
+			request.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ??
+			request.headers.get("X-Api-Key") ??
+			"";
+		return toAuthInfo(principal, token);
+	}
+
+	getApiKey(): string {
+		return this.tenantConfig.compliqApiKey || this.env.COMPLIQ_API_KEY || "";
+	}
+
 	async handleSse(request: Request): Promise<Response> {
-		console.log("Setting up SSE connection");
+		if (this.atClientLimit()) {
+			return new Response("Too many SSE connections for this tenant", { status: 429 });
+		}
+		const subject = this.principalFor(request)?.subject;
+		
+		// A client that lost its stream reconnects with the ID of the last event it got
+		const lastEventId = request.headers.get("Last-Event-ID");
+		const resumed = lastEventId ? parseEventId(lastEventId) : undefined;
+		let session = resumed ? await this.sseSessions.get(resumed.sessionId) : undefined;
+		if (session && session.subject !== subject) {
+			return new Response("Session belongs to another principal", { status: 403 });
+		}
+		if (lastEventId && !session) {
+			sseLog.info("Session to resume is gone, opening a new one", { lastEventId });
+		}
+		
 		try {
 			// Create a transform stream for the SSE connection
 			const { readable, writable } = new TransformStream();
 			const writer = writable.getWriter();
 			const encoder = new TextEncoder();
 			
-			// Generate a unique client ID for logging
-			const clientId = Math.random().toString(36).substring(2, 10);
-			console.log(`SSE: New client ${clientId} connected`);
-			
-			// Send initial connection message immediately
-			await writer.write(encoder.encode(`event: connected\ndata: {"clientId":"${clientId}"}\n\n`));
-			
-			// Create a message handler
-			const sseHandler = {
-				send: async (event: string, data: any) => {
-					try {
-						console.log(`SSE: Sending event ${event} to client ${clientId}`);
-						const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-						await writer.write(encoder.encode(message));
-					} catch (error) {
-						console.error(`SSE: Error sending event to client ${clientId}:`, error);
-					}
+			if (session) {
+				// The client gave up on its old stream, if this object still holds one
+				const stale = this.sseClients.get(session.sessionId);
+				if (stale) {
+					this.cleanupClient(stale);
 				}
-			};
-			
-			// Register this connection with the MCP server
-			try {
-				// Forward SSE requests to the MCP server
-				this.server.addSseClient(sseHandler);
-				console.log(`SSE: Client ${clientId} registered with MCP server`);
-			} catch (error) {
-				console.error(`SSE: Error registering client with MCP server: ${error}`);
-				// We'll continue anyway
+				await this.sseSessions.connect(session);
+			} else {
+				session = await this.sseSessions.open(subject);
 			}
-			
-			// Set up frequent heartbeats to keep the connection alive
-			// We send heartbeats every 5 seconds to prevent timeouts
-			const heartbeatInterval = setInterval(async () => {
-				try {
-					const timestamp = new Date().toISOString();
-					const uptime = Date.now() - this.msSinceEpoch;
-					await writer.write(encoder.encode(`event: heartbeat\ndata: {"timestamp":"${timestamp}","uptime":${uptime},"clientId":"${clientId}"}\n\n`));
-				} catch (error) {
-					console.error(`SSE: Heartbeat failed for client ${clientId}:`, error);
-					this.cleanupClient(writer, heartbeatInterval, clientId);
-				}
-			}, 5000); // Send heartbeats every 5 seconds
+			// The session ID doubles as the key clients use to post messages back to us
+			const sessionId = session.sessionId;
 			
 			// Add this client to our tracked set
-			const client = { writer, interval: heartbeatInterval };
-			this.sseClients.add(client);
-			console.log(`SSE: Client ${clientId} added to tracking. Active clients: ${this.sseClients.size}`);
+			const client: SseClient = {
+				session,
+				writer,
+				// An ID past the last event sent would skip the events still to come, so it is clamped
+				cursor:
+					resumed && session.sessionId === resumed.sessionId
+						? Math.min(resumed.id, session.lastEventId)
+						: session.lastEventId,
+				flushed: Promise.resolve(),
+			};
+			this.sseClients.set(sessionId, client);
+			sseLog.info(resumed ? "Client reconnected" : "Client connected", {
+				sessionId,
+				clients: this.sseClients.size,
+				missedEvents: session.lastEventId - client.cursor,
+			});
+			// Tell the client where to POST its messages, relative to the stream URL.
+			// Not awaited: the write only settles once the client starts reading the response.
+			const url = new URL(request.url);
+			writer
+				.write(encoder.encode(`event: endpoint\ndata: ${url.pathname}/message?sessionId=${sessionId}\n\n`))
+				.catch((error) => {
+					sseLog.warn("Sending endpoint failed", { sessionId, error });
+					this.cleanupClient(client);
+				});
+			// Replays whatever the client missed while it was away
+			this.flushStream(client);
+			// Heartbeats keep the connection from timing out; the alarm sends them for every open stream
+			await this.scheduleAlarm(Date.now() + this.keepaliveMs);
 			
 			// Set up cleanup when the connection closes
 			request.signal.addEventListener('abort', () => {
-				console.log(`SSE: Client ${clientId} connection aborted by browser`);
-				try {
-					// Remove from MCP server to stop receiving events
-					this.server.removeSseClient(sseHandler);
-				} catch (error) {
-					console.error(`SSE: Error removing client from MCP server: ${error}`);
-				}
-				this.cleanupClient(writer, heartbeatInterval, clientId);
+				this.cleanupClient(client);
 			});
 			
 			// Return the SSE response with appropriate headers
@@ -170,143 +1054,529 @@ export class MyMCP {
 				}
 			});
 		} catch (error: any) {
-			console.error("SSE setup error:", error);
+			sseLog.error("Setting up stream failed", { error });
 			return new Response(`SSE setup error: ${error.message || String(error)}`, { 
 				status: 500,
 				headers: { "Content-Type": "text/plain" },
 			});
 		}
 	}
-	
-	cleanupClient(writer: WritableStreamDefaultWriter, interval: any, clientId?: string) {
-		// Log the cleanup
-		console.log(`Cleaning up client ${clientId || 'unknown'}`);
-		
-		// Remove the client from our set 
-		this.sseClients.forEach(client => {
-			if (client.writer === writer) {
-				clearInterval(client.interval);
-				this.sseClients.delete(client);
-				console.log(`Client ${clientId || 'unknown'} removed. Remaining clients: ${this.sseClients.size}`);
-			}
-		});
-		
-		// Close the writer
-		try {
-			writer.close().catch(e => console.error(`Error closing writer for client ${clientId || 'unknown'}:`, e));
-		} catch (e) {
-			console.error(`Error in writer close for client ${clientId || 'unknown'}:`, e);
+
+	async handleSseMessage(request: Request): Promise<Response> {
+		if (request.method !== "POST") {
+			return new Response("Method not allowed", { status: 405, headers: { Allow: "POST, OPTIONS" } });
 		}
-	}
 
-	async handleMcp(request: Request): Promise<Response> {
+		let body: any;
 		try {
-			// Parse the request as JSON
-			const body = await request.json();
-			console.log(`MCP request received: method=${body.method}, id=${body.id}`);
-			
-			// Check if it's a describe request
-			if (body.method === "describe") {
-				// Return server description
-				return new Response(JSON.stringify({
-					jsonrpc: "2.0",
-					result: {
-						name: this.server.name,
-						version: this.server.version,
-						tools: this.server.getTools()
-					},
-					id: body.id
-				}), {
-					headers: { "Content-Type": "application/json" }
-				});
-			}
-			
-			// Check if it's a run request
-			if (body.method === "run") {
-				try {
-					// Extract the tool name and params
-					const toolName = body.params.tool;
-					const toolParams = body.params.params;
-					
-					// Run the tool
-					const toolHandler = this.server.getToolHandler(toolName);
-					if (!toolHandler) {
-						throw new Error(`Tool not found: ${toolName}`);
-					}
-					
-					// Execute the tool
-					const result = await toolHandler(toolParams);
-					
-					// Return the result
-					return new Response(JSON.stringify({
-						jsonrpc: "2.0",
-						result,
-						id: body.id
-					}), {
-						headers: { "Content-Type": "application/json" }
-					});
-				} catch (toolError: any) {
-					console.error("Tool execution error:", toolError);
-					return new Response(JSON.stringify({
-						jsonrpc: "2.0",
-						error: {
-							code: -32000,
-							message: toolError.message || "Tool execution failed",
-							data: { stack: toolError.stack }
-						},
-						id: body.id
-					}), {
-						headers: { "Content-Type": "application/json" }
-					});
-				}
-			}
-			
-			// Unsupported method
-			return new Response(JSON.stringify({
-				jsonrpc: "2.0",
-				error: {
-					code: -32601,
-					message: `Method not found: ${body.method}`
-				},
-				id: body.id
-			}), {
-				headers: { "Content-Type": "application/json" }
-			});
+			body = await request.json();
 		} catch (error: any) {
-			console.error("MCP parsing error:", error);
-			// Return a malformed request error
-			return new Response(JSON.stringify({
-				jsonrpc: "2.0",
-				error: {
-					code: -32700,
-					message: "Parse error",
-					data: { details: error.message }
-				},
-				id: null
-			}), { 
-				status: 400,
-				headers: { "Content-Type": "application/json" },
-			});
+			sseLog.warn("Message is not valid JSON", { error });
+			return this.jsonRpcError(null, -32700, "Parse error", 400, { details: error.message });
 		}
-	}
 
-	handleCors(): Response {
-		return new Response(null, {
-			headers: {
-				"Access-Control-Allow-Origin": "*",
-				"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-				"Access-Control-Allow-Headers": "*",
-				"Access-Control-Max-Age": "86400",
-			},
-		});
-	}
+		const sessionId = new URL(request.url).searchParams.get("sessionId");
+		if (!sessionId) {
+			return this.jsonRpcError(null, -32000, "Bad Request: sessionId query parameter is required", 400);
+		}
+		// The stream may be down for now; answers are buffered until the client reconnects
+		const session = await this.sseSessions.get(sessionId);
+		if (!session) {
+			// Never opened, or closed for longer than the retention period, so the client must start over
+			return this.jsonRpcError(null, -32001, "Session not found", 404);
+		}
+		const authInfo = this.authInfoFor(request);
+		if (session.subject !== principalFromAuthInfo(authInfo)?.subject) {
+			return this.jsonRpcError(null, -32000, "Session belongs to another principal", 403);
+		}
+
+		const messages: unknown[] = Array.isArray(body) ? body : [body];
+		const parsed = messages.map((message) => JSONRPCMessageSchema.safeParse(message));
+		const invalid = parsed.find((result) => !result.success);
+		if (invalid && !invalid.success) {
+			return this.jsonRpcError(null, -32600, "Invalid Request", 400, invalid.error.issues);
+		}
+
+		// Answers go out on the event stream; the POST itself is only acknowledged
+		for (const result of parsed) {
+			if (!result.success) continue;
+			const reply = this
+				.dispatch(result.data, { sessionId, authInfo })
+				.then((response) => response && this.sendEvent(sessionId, "message", response))
+				.catch((error) => {
+					sseLog.error("Answering message failed", { sessionId, error });
+					const client = this.sseClients.get(sessionId);
+					if (client) {
+						this.cleanupClient(client);
+					}
+				});
+			this.state.waitUntil(reply);
+		}
+
+		return new Response("Accepted", { status: 202 });
+	}
+
+	// Delivers server-initiated messages to the session they belong to, or to every open stream
+	routeOutbound(message: unknown, context?: MessageContext) {
+		if (context?.sessionId) {
+			this.sendEvent(context.sessionId, "message", message);
+			this.sendToSockets(this.state.getWebSockets(context.sessionId), message);
+			return;
+		}
+		for (const sessionId of this.sseClients.keys()) {
+			this.sendEvent(sessionId, "message", message);
+		}
+		this.sendToSockets(this.state.getWebSockets(), message);
+	}
+	
+	// Buffers an event for an SSE session, then writes it to the session's stream if one is open
+	async sendEvent(sessionId: string, event: string, data: any) {
+		try {
+			const payload = typeof data === "string" ? data : JSON.stringify(data);
+			const stored = await this.sseSessions.append(sessionId, event, payload);
+			if (!stored) {
+				// Not an SSE session, e.g. a Streamable HTTP one, or it expired
+				return;
+			}
+			sseLog.debug("Sending event", { event, sessionId, eventId: stored.id });
+		} catch (error) {
+			sseLog.error("Sending event failed", { event, sessionId, error });
+			return;
+		}
+		const client = this.sseClients.get(sessionId);
+		if (client) {
+			await this.flushStream(client);
+		}
+	}
+	
+	// Writes the buffered events the stream has not had yet; flushes run one after another, so events stay in order
+	flushStream(client: SseClient): Promise<void> {
+		const { sessionId } = client.session;
+		const encoder = new TextEncoder();
+		client.flushed = client.flushed
+			.then(async () => {
+				for (const event of await this.sseSessions.eventsAfter(sessionId, client.cursor)) {
+					await client.writer.write(
+						encoder.encode(`id: ${formatEventId(sessionId, event.id)}\nevent: ${event.event}\ndata: ${event.data}\n\n`),
+					);
+					client.cursor = event.id;
+				}
+			})
+			.catch((error) => {
+				sseLog.warn("Writing events failed", { sessionId, error });
+				this.cleanupClient(client);
+			});
+		return client.flushed;
+	}
+	
+	// Heartbeats carry no event ID, so they do not move the client's place in the stream
+	sendHeartbeats() {
+		const encoder = new TextEncoder();
+		const timestamp = new Date().toISOString();
+		const uptime = Date.now() - this.msSinceEpoch;
+		for (const client of this.sseClients.values()) {
+			const { sessionId } = client.session;
+			client.writer
+				.write(encoder.encode(`event: heartbeat\ndata: {"timestamp":"${timestamp}","uptime":${uptime},"clientId":"${sessionId}"}\n\n`))
+				.catch((error) => {
+					sseLog.warn("Heartbeat failed", { sessionId, error });
+					this.cleanupClient(client);
+				});
+		}
+	}
+	
+	// Whether the tenant already has as many open SSE streams and WebSockets as it may
+	atClientLimit(): boolean {
+		const maxClients = this.tenantConfig.maxSseClients;
+		const clients = this.sseClients.size + this.state.getWebSockets().length;
+		if (maxClients !== undefined && clients >= maxClients) {
+			sseLog.warn("Tenant is at its limit of clients", { maxClients });
+			return true;
+		}
+		return false;
+	}
+	
+	// Closes a stream. The session is kept, with its subscriptions, so the client can resume it.
+	cleanupClient(client: SseClient) {
+		const { sessionId } = client.session;
+		if (this.sseClients.get(sessionId) !== client) {
+			return;
+		}
+		this.sseClients.delete(sessionId);
+		sseLog.info("Client disconnected", { sessionId, clients: this.sseClients.size });
+		this.state.waitUntil(
+			this.sseSessions
+				.disconnect(client.session)
+				.then((expiresAt) => this.scheduleAlarm(expiresAt))
+				.catch((error) => sseLog.error("Recording disconnect failed", { sessionId, error })),
+		);
+		
+		// Close the writer
+		try {
+			client.writer.close().catch(error => sseLog.debug("Closing stream failed", { sessionId, error }));
+		} catch (error) {
+			sseLog.debug("Closing stream failed", { sessionId, error });
+		}
+	}
+	
+	addSubscription(uri: string, sessionId: string) {
+		if (!this.resourceSubscriptions.has(uri)) {
+			this.resourceSubscriptions.set(uri, new Set());
+		}
+		this.resourceSubscriptions.get(uri)!.add(sessionId);
+	}
+	
+	removeSubscriptions(sessionId: string) {
+		for (const [uri, subscribers] of this.resourceSubscriptions) {
+			subscribers.delete(sessionId);
+			if (subscribers.size === 0) {
+				this.resourceSubscriptions.delete(uri);
+			}
+		}
+	}
+
+	/**
+	 * MCP over a hibernatable WebSocket, one JSON-RPC message per frame in both directions.
+	 * The object only wakes up for frames, so an idle connection costs nothing.
+	 */
+	handleWebSocket(request: Request): Response {
+		if (request.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+			return this.addCorsHeaders(
+				new Response("Expected a WebSocket upgrade", { status: 426, headers: { Upgrade: "websocket" } }),
+			);
+		}
+		if (this.atClientLimit()) {
+			return this.addCorsHeaders(new Response("Too many connections for this tenant", { status: 429 }));
+		}
+		const [client, server] = Object.values(new WebSocketPair());
+		const session: SocketSession = {
+			sessionId: crypto.randomUUID(),
+			principal: this.principalFor(request),
+			connectedAt: Date.now(),
+			subscriptions: [],
+		};
+		// Tagged with the session ID, so messages for the session find the socket after a wake-up
+		this.state.acceptWebSocket(server, [session.sessionId]);
+		server.serializeAttachment(session);
+		log.info("WebSocket connected", { sessionId: session.sessionId });
+		// The SDK's WebSocket client asks for the "mcp" subprotocol and drops the connection without it
+		const protocols = request.headers.get("Sec-WebSocket-Protocol")?.split(",").map((protocol) => protocol.trim());
+		const headers = protocols?.includes("mcp") ? { "Sec-WebSocket-Protocol": "mcp" } : undefined;
+		return new Response(null, { status: 101, webSocket: client, headers });
+	}
+
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		const session: SocketSession = ws.deserializeAttachment();
+		const trace = { traceId: crypto.randomUUID(), tenant: this.tenant, sessionId: session.sessionId };
+		await withTrace(trace, () => this.handleSocketMessage(ws, session, message));
+	}
+
+	async handleSocketMessage(ws: WebSocket, session: SocketSession, message: string | ArrayBuffer) {
+		// After hibernation this is a fresh object; the tenant comes from storage
+		await this.ensureInitialized();
+
+		let body: any;
+		try {
+			body = JSON.parse(typeof message === "string" ? message : new TextDecoder().decode(message));
+		} catch (error: any) {
+			log.warn("WebSocket message is not valid JSON", { error });
+			this.sendToSockets([ws], { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+			return;
+		}
+		const messages: unknown[] = Array.isArray(body) ? body : [body];
+
+		// Every frame counts against the tenant, as every POST to /mcp does
+		try {
+			await this.limits.take({ tenant: true });
+		} catch (error) {
+			if (!(error instanceof RateLimitError)) {
+				throw error;
+			}
+			for (const message of messages) {
+				const id = (message as any)?.id;
+				if (id !== undefined) {
+					this.sendToSockets([ws], { jsonrpc: "2.0", id, error: rateLimitedError(error) });
+				}
+			}
+			return;
+		}
+
+		// The token is not kept with the socket, and nothing past authentication needs it
+		const authInfo = session.principal ? toAuthInfo(session.principal, "") : undefined;
+		for (const message of messages) {
+			const parsed = JSONRPCMessageSchema.safeParse(message);
+			if (!parsed.success) {
+				const id = (message as any)?.id ?? null;
+				this.sendToSockets([ws], {
+					jsonrpc: "2.0",
+					id,
+					error: { code: -32600, message: "Invalid Request", data: parsed.error.issues },
+				});
+				continue;
+			}
+			const response = await this.dispatch(parsed.data, { sessionId: session.sessionId, authInfo });
+			if (response) {
+				this.sendToSockets([ws], response);
+			}
+		}
+	}
+
+	async webSocketClose(ws: WebSocket, code: number, reason: string) {
+		const session: SocketSession = ws.deserializeAttachment();
+		this.removeSubscriptions(session.sessionId);
+		log.info("WebSocket disconnected", { sessionId: session.sessionId, code, reason });
+		try {
+			// 1005 and 1006 only report what happened and cannot be sent back
+			ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+		} catch {
+			// Already closed
+		}
+	}
+
+	async webSocketError(ws: WebSocket, error: unknown) {
+		const session: SocketSession = ws.deserializeAttachment();
+		this.removeSubscriptions(session.sessionId);
+		log.warn("WebSocket failed", { sessionId: session.sessionId, error });
+	}
+
+	sendToSockets(sockets: WebSocket[], message: unknown) {
+		const data = JSON.stringify(message);
+		for (const ws of sockets) {
+			try {
+				ws.send(data);
+			} catch (error) {
+				log.warn("Sending on WebSocket failed", { error });
+			}
+		}
+	}
+
+	async handleMcp(request: Request): Promise<Response> {
+		// Streamable HTTP: POST carries client messages, DELETE ends a session.
+		// We never push server-initiated messages over GET, which the spec allows us to refuse.
+		if (request.method === "DELETE") {
+			return this.handleMcpDelete(request);
+		}
+		if (request.method !== "POST") {
+			return new Response("Method not allowed", {
+				status: 405,
+				headers: { Allow: "POST, DELETE, OPTIONS" },
+			});
+		}
+
+		let body: any;
+		try {
+			body = await request.json();
+		} catch (error: any) {
+			log.warn("MCP request is not valid JSON", { error });
+			return this.jsonRpcError(null, -32700, "Parse error", 400, { details: error.message });
+		}
+
+		// Pre-MCP clients spoke `describe`/`run`; keep answering them for now
+		if (!Array.isArray(body) && (body?.method === "describe" || body?.method === "run")) {
+			return this.handleLegacyMcp(body, this.authInfoFor(request));
+		}
+
+		const isBatch = Array.isArray(body);
+		const messages: unknown[] = isBatch ? body : [body];
+		if (messages.length === 0) {
+			return this.jsonRpcError(null, -32600, "Invalid Request: empty batch", 400);
+		}
+		log.debug("MCP request received", { messages: messages.length });
+
+		const isInitialize = messages.some((message: any) => message?.method === "initialize");
+		if (isInitialize && messages.length > 1) {
+			return this.jsonRpcError(
+				null,
+				-32600,
+				"Invalid Request: initialize must not be part of a batch",
+				400,
+			);
+		}
+
+		const authInfo = this.authInfoFor(request);
+		const subject = principalFromAuthInfo(authInfo)?.subject;
+		let sessionId = request.headers.get("Mcp-Session-Id") ?? undefined;
+		if (isInitialize) {
+			const session = await this.mcpSessions.create(subject);
+			sessionId = session.sessionId;
+			await this.scheduleAlarm(this.mcpSessions.deadline(session));
+			log.info("MCP session created", { sessionId });
+		} else if (!sessionId) {
+			return this.jsonRpcError(null, -32000, "Bad Request: Mcp-Session-Id header is required", 400);
+		} else {
+			const session = await this.mcpSessions.get(sessionId);
+			if (!session) {
+				return this.jsonRpcError(null, -32001, "Session not found", 404);
+			}
+			if (session.subject !== subject) {
+				return this.jsonRpcError(null, -32000, "Session belongs to another principal", 403);
+			}
+			await this.mcpSessions.touch(session);
+		}
+
+		const replies = await Promise.all(
+			messages.map((message) => {
+				const parsed = JSONRPCMessageSchema.safeParse(message);
+				if (!parsed.success) {
+					const id = (message as any)?.id ?? null;
+					return Promise.resolve({
+						jsonrpc: "2.0",
+						id,
+						error: { code: -32600, message: "Invalid Request", data: parsed.error.issues },
+					});
+				}
+				return this.dispatch(parsed.data, { sessionId, authInfo });
+			}),
+		);
+		const responses = replies.filter((reply) => reply !== undefined);
+
+		// A failed handshake must not leave a half-open session behind
+		if (isInitialize && responses.some((response) => "error" in response)) {
+			await this.mcpSessions.delete(sessionId);
+		}
+
+		const headers = { "Content-Type": "application/json", "Mcp-Session-Id": sessionId };
+
+		// Only notifications and responses were sent, so there is nothing to answer
+		if (responses.length === 0) {
+			return new Response(null, { status: 202, headers });
+		}
+
+		return new Response(JSON.stringify(isBatch ? responses : responses[0]), { headers });
+	}
+
+	// Hands a client message to the server; tool calls first count against the caller's limits
+	async dispatch(message: any, context: MessageContext): Promise<any> {
+		if (message.method !== "tools/call" || !("id" in message)) {
+			return this.transport.dispatch(message, context);
+		}
+		// Unknown names are counted together, so clients cannot add series to /metrics at will
+		const name = String(message.params?.name);
+		const tool = this.toolNames.has(name) ? name : "unknown";
+		const trace = { traceId: currentTrace()?.traceId ?? crypto.randomUUID(), sessionId: context.sessionId, tool };
+		return withTrace(trace, async () => {
+			const startedAt = Date.now();
+			if (tool !== "quotaStatus") {
+				try {
+					await this.limits.take(this.limitKeysFor(context));
+				} catch (error) {
+					if (!(error instanceof RateLimitError)) {
+						throw error;
+					}
+					this.metrics.toolCall(tool, "rate_limited", Date.now() - startedAt);
+					return { jsonrpc: "2.0", id: message.id, error: rateLimitedError(error) };
+				}
+			}
+			const response = await this.transport.dispatch(message, context);
+			const failed = !!response && ("error" in response || response.result.isError === true);
+			const outcome = failed ? "error" : "ok";
+			const durationMs = Date.now() - startedAt;
+			this.metrics.toolCall(tool, outcome, durationMs);
+			log.info("Tool call finished", { outcome, durationMs });
+			return response;
+		});
+	}
+
+	// Whose limits a call counts against: the caller's user, and the MCP session it came in on.
+	// Never the call's own userId, which a client could change to get a fresh bucket each time.
+	limitKeysFor(context: MessageContext): LimitKeys {
+		const principal = principalFromAuthInfo(context.authInfo);
+		return { user: principal?.userId ?? principal?.subject, session: context.sessionId };
+	}
+
+	// 429 with Retry-After, and a JSON-RPC error body on the MCP endpoints
+	rateLimitedResponse(route: string, error: RateLimitError): Response {
+		const response = route.startsWith("/uploads/")
+			? this.jsonResponse({ error: error.message }, 429)
+			: this.jsonRpcError(null, RATE_LIMITED, error.message, 429, rateLimitedError(error).data);
+		response.headers.set("Retry-After", String(error.retryAfter));
+		return response;
+	}
+
+	async handleMcpDelete(request: Request): Promise<Response> {
+		const sessionId = request.headers.get("Mcp-Session-Id");
+		if (!sessionId) {
+			return this.jsonRpcError(null, -32000, "Bad Request: Mcp-Session-Id header is required", 400);
+		}
+		const session = await this.mcpSessions.get(sessionId);
+		if (!session) {
+			return this.jsonRpcError(null, -32001, "Session not found", 404);
+		}
+		if (session.subject !== this.principalFor(request)?.subject) {
+			return this.jsonRpcError(null, -32000, "Session belongs to another principal", 403);
+		}
+		await this.mcpSessions.delete(sessionId);
+		log.info("MCP session terminated by client", { sessionId });
+		return new Response(null, { status: 204 });
+	}
+
+	// Deprecated: maps the old `describe`/`run` methods onto tools/list and tools/call
+	async handleLegacyMcp(body: any, authInfo?: AuthInfo): Promise<Response> {
+		log.warn("Deprecated method used, clients should move to tools/*", { method: body.method });
+
+		if (body.method === "describe") {
+			const reply = await this.dispatch({
+				jsonrpc: "2.0",
+				id: body.id ?? null,
+				method: "tools/list",
+			}, { authInfo });
+			if (!reply || "error" in reply) {
+				return this.jsonResponse(reply);
+			}
+			return this.jsonResponse({
+				jsonrpc: "2.0",
+				result: { ...SERVER_INFO, tools: reply.result.tools },
+				id: body.id,
+			});
+		}
+
+		const reply = await this.dispatch({
+			jsonrpc: "2.0",
+			id: body.id ?? null,
+			method: "tools/call",
+			params: { name: body.params?.tool, arguments: body.params?.params },
+		}, { authInfo });
+		return this.jsonResponse(reply);
+	}
+
+	jsonRpcError(
+		id: string | number | null,
+		code: number,
+		message: string,
+		status = 200,
+		data?: unknown,
+	): Response {
+		return this.jsonResponse(
+			{ jsonrpc: "2.0", error: { code, message, ...(data !== undefined && { data }) }, id },
+			status,
+		);
+	}
+
+	jsonResponse(body: unknown, status = 200): Response {
+		return new Response(JSON.stringify(body), {
+			status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	handleCors(): Response {
+		return new Response(null, {
+			headers: {
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+				"Access-Control-Allow-Headers": "*",
+				"Access-Control-Max-Age": "86400",
+			},
+		});
+	}
 
 	addCorsHeaders(response: Response): Response {
 		const headers = new Headers(response.headers);
 		headers.set("Access-Control-Allow-Origin", "*");
-		headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+		headers.set("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
 		headers.set("Access-Control-Allow-Headers", "*");
 		headers.set("Access-Control-Max-Age", "86400");
+		headers.set("Access-Control-Expose-Headers", "Mcp-Session-Id, Retry-After, X-Request-Id");
 		
 		return new Response(response.body, {
 			status: response.status,
@@ -316,410 +1586,1267 @@ export class MyMCP {
 	}
 
 	async initServer() {
-		console.log("Initializing COMPLiQ MCP Server");
-		
 		// Check if API key is available
-		try {
-            const apiKey = this.env.COMPLIQ_API_KEY;
-            if (typeof apiKey === 'string' && apiKey.length > 0) {
-                console.log("API key exists and is valid");
-            } else {
-                console.warn("API key is missing or invalid!");
-            }
-        } catch (error) {
-            console.error("Error accessing API key:", error);
-        }
+		if (!this.getApiKey()) {
+			log.warn("COMPLiQ API key is missing");
+		}
+		
+		// Resolve the COMPLiQ backend up front so a misconfiguration fails loudly
+		this.target = resolveTarget(this.env, this.tenantConfig);
+		validateTarget(this.target);
+		this.timeZone = this.tenantConfig.timeZone ?? this.env.COMPLIQ_TIME_ZONE ?? DEFAULT_TIME_ZONE;
+		validateTimeZone(this.timeZone);
+		this.attachmentLimits = parseAttachmentLimits(this.env.ATTACHMENT_MAX_BYTES);
+		this.redactor = new Redactor(
+			this.tenantConfig.redaction ?? parseRedactionConfig(this.env.REDACTION_CONFIG),
+			this.env.REDACTION_HASH_KEY,
+		);
+		this.limits = new RateLimiter(
+			this.state.storage,
+			resolveLimits(this.env.RATE_LIMITS, this.tenantConfig.rateLimits),
+		);
+		this.client = new CompliqClient({
+			apiKey: this.getApiKey(),
+			target: this.target,
+			timeoutMs: numberVar(this.env, "COMPLIQ_TIMEOUT_MS"),
+			onResponse: (endpoint, status, durationMs) => this.metrics.upstreamResponse(endpoint, status, durationMs),
+		});
+		this.sinks = createSinks(resolveSinks(this.env.AUDIT_SINKS, this.tenantConfig.sinks), {
+			deliverToCompliq: async (endpoint, request) => deliveryStatus(await this.deliver(endpoint, request)),
+			storage: this.state.storage,
+			bindings: this.env as unknown as Record<string, unknown>,
+		});
+		log.info("Configured COMPLiQ target", {
+			environment: this.target.environment,
+			baseUrl: this.target.baseUrl,
+			redactionRules: this.redactor.ruleNames,
+			sinks: this.sinks.map((sink) => sink.name),
+		});
 		
+		// SSE streams do not survive a restart, but their sessions can still be resumed until they expire
+		for (const session of await this.sseSessions.restore()) {
+			for (const uri of session.subscriptions) {
+				this.addSubscription(uri, session.sessionId);
+			}
+		}
+		// WebSockets do survive hibernation, and keep their subscriptions in their attachment
+		for (const socket of this.state.getWebSockets()) {
+			const session: SocketSession = socket.deserializeAttachment();
+			for (const uri of session.subscriptions) {
+				this.addSubscription(uri, session.sessionId);
+			}
+		}
+		const sseDeadline = await this.sseSessions.nextDeadline();
+		if (sseDeadline !== undefined) {
+			await this.scheduleAlarm(sseDeadline);
+		}
+
+		// Created here rather than in the constructor: names can only be registered once, so a retry
+		// after a failed attempt must start from a fresh server
+		this.server = new McpServer(SERVER_INFO);
+		this.toolNames.clear();
 		// Initialize COMPLiQ MCP tools
 		try {
 			await this.initializeTools();
-			console.log("Tools initialized successfully");
 		} catch (error) {
-			console.error("Error initializing tools:", error);
+			log.error("Registering tools failed", { error });
 			throw error; // Re-throw to signal initialization failure
 		}
+		this.initializeResources();
+		this.initializePrompts();
+		
+		// Capabilities are fixed once connected, so this must come after all registrations
+		await this.server.connect(this.transport);
 	}
 	
-	async initializeTools() {
-		console.log("Setting up COMPLiQ tools");
+	// Exposes the submission history as compliq://sessions/{sessionId} and compliq://interactions/{correlationId}
+	initializeResources() {
+		this.server.resource(
+			"session",
+			new ResourceTemplate("compliq://sessions/{sessionId}", { list: undefined }),
+			{ description: "Every submission logged for a session, with COMPLiQ's responses", mimeType: "application/json" },
+			async (uri: URL, variables: Record<string, string | string[]>, extra: any) => {
+				const sessionId = decodeURIComponent(String(variables.sessionId));
+				const session = await this.history.getSession(sessionId);
+				if (!session || !mayRead(session, extra?.authInfo)) {
+					throw new McpError(ErrorCode.InvalidParams, `No history for session ${sessionId}`);
+				}
+				const events = await this.history.sessionEvents(sessionId);
+				return jsonResource(uri, { ...describeHistorySession(session), events: events.map(describeHistoryEvent) });
+			},
+		);
+		
+		this.server.resource(
+			"interaction",
+			new ResourceTemplate("compliq://interactions/{correlationId}", { list: undefined }),
+			{ description: "Every submission logged for a correlationId, with COMPLiQ's responses", mimeType: "application/json" },
+			async (uri: URL, variables: Record<string, string | string[]>, extra: any) => {
+				const correlationId = decodeURIComponent(String(variables.correlationId));
+				const events = await this.readableEvents(correlationId, extra?.authInfo);
+				if (events.length === 0) {
+					throw new McpError(ErrorCode.InvalidParams, `No history for correlationId ${correlationId}`);
+				}
+				return jsonResource(uri, { correlationId, events: events.map(describeHistoryEvent) });
+			},
+		);
 		
+		// The SDK lists every resource in one response; a tenant's sessions can be many, so page them
+		this.server.server.setRequestHandler(ListResourcesRequestSchema, async (request: any, extra: any) => {
+			const principal = principalFromAuthInfo(extra?.authInfo);
+			const owner = principal && !principal.scopes.includes(ADMIN_SCOPE) ? principal.subject : undefined;
+			const page = await this.history.listSessions(RESOURCE_PAGE_SIZE, request.params?.cursor, owner);
+			return {
+				resources: page.sessions.map((session) => ({
+					uri: sessionUri(session.sessionId),
+					name: `Session ${session.sessionId}`,
+					description: `${session.events} submission(s), last at ${new Date(session.lastAt).toISOString()}`,
+					mimeType: "application/json",
+				})),
+				nextCursor: page.nextCursor,
+			};
+		});
+		
+		// Updates are pushed as notifications, which only SSE sessions have a channel for
+		this.server.server.registerCapabilities({ resources: { subscribe: true } });
+		this.server.server.setRequestHandler(SubscribeRequestSchema, async (request: any, extra: any) => {
+			const sessionId = this.transport.contextFor(extra.requestId)?.sessionId;
+			const session = sessionId ? await this.sseSessions.get(sessionId) : undefined;
+			const [socket] = sessionId ? this.state.getWebSockets(sessionId) : [];
+			if (!sessionId || (!session && !socket)) {
+				throw new McpError(ErrorCode.InvalidRequest, "Resource subscriptions need an SSE (/sse) or WebSocket (/ws) session");
+			}
+			const uri = request.params.uri;
+			if (!HISTORY_URI.test(uri)) {
+				throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${uri}`);
+			}
+			if (!(await this.maySubscribe(uri, extra?.authInfo))) {
+				throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${uri}`);
+			}
+			// Kept with the session, so they outlive its stream and a restart of this object
+			if (session) {
+				await this.sseSessions.subscribe(session, uri);
+			} else {
+				updateSubscriptions(socket, (subscriptions) => [...new Set([...subscriptions, uri])]);
+			}
+			this.addSubscription(uri, sessionId);
+			log.info("Resource subscribed", { sessionId, uri });
+			return {};
+		});
+		this.server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: any, extra: any) => {
+			const sessionId = this.transport.contextFor(extra.requestId)?.sessionId;
+			const session = sessionId ? await this.sseSessions.get(sessionId) : undefined;
+			if (session) {
+				await this.sseSessions.unsubscribe(session, request.params.uri);
+			}
+			for (const socket of sessionId ? this.state.getWebSockets(sessionId) : []) {
+				updateSubscriptions(socket, (subscriptions) => subscriptions.filter((uri) => uri !== request.params.uri));
+			}
+			const subscribers = this.resourceSubscriptions.get(request.params.uri);
+			if (sessionId && subscribers) {
+				subscribers.delete(sessionId);
+				if (subscribers.size === 0) {
+					this.resourceSubscriptions.delete(request.params.uri);
+				}
+			}
+			return {};
+		});
+	}
+	
+	// Step-by-step guides to the logging workflow, with sample tool calls filled in from the arguments
+	initializePrompts() {
+		const ids = {
+			sessionId: z.string().optional().describe("ID of the conversation (generated if omitted)"),
+			correlationId: z.string().optional().describe("ID of this prompt and answer (generated if omitted)"),
+			userId: z.string().optional().describe("User identifier, if the connection is not authenticated as the user"),
+		};
+		
+		this.server.prompt(
+			"log-a-chat-turn",
+			"How to log a user prompt and the model's answer to COMPLiQ",
+			{
+				prompt: z.string().describe("The user's prompt"),
+				answer: z.string().describe("The model's answer"),
+				...ids,
+			},
+			(args: Parameters<typeof chatTurnPrompt>[0]) => chatTurnPrompt(args),
+		);
+		
+		this.server.prompt(
+			"log-a-RAG-answer-with-sources",
+			"How to log an answer built from retrieved sources, with one intermediate result per source",
+			{
+				prompt: z.string().describe("The user's prompt"),
+				answer: z.string().describe("The model's answer"),
+				sources: z.string().describe("Names or URLs of the sources used, one per line or comma-separated"),
+				...ids,
+			},
+			(args: Parameters<typeof ragAnswerPrompt>[0]) => ragAnswerPrompt(args),
+		);
+		
+		this.server.prompt(
+			"attach-and-log-file",
+			"How to log a prompt with a file attached, and optionally its answer",
+			{
+				prompt: z.string().describe("The user's prompt"),
+				fileName: z.string().describe("Name of the file, e.g. report.pdf"),
+				fileContentType: z.string().optional().describe("png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg (guessed from the file name if omitted)"),
+				answer: z.string().optional().describe("The model's answer, if there is one yet"),
+				...ids,
+			},
+			(args: Parameters<typeof fileInteractionPrompt>[0]) => fileInteractionPrompt(args),
+		);
+	}
+	
+	// Registers a tool with the server and remembers its name
+	registerTool(name: string, config: any, callback: any) {
+		this.toolNames.add(name);
+		return this.server.registerTool(name, config, callback);
+	}
+	
+	async initializeTools() {
 		// Input Prompt tool
-		this.server.tool(
+		this.registerTool(
 			"inputPrompt",
 			{
-				sessionId: z.string().max(100).describe("Session identifier"),
-				correlationId: z.string().max(100).describe("Correlation ID"),
-				content: z.string().max(40000).describe("User input prompt text"),
-				userId: z.string().max(100).describe("User identifier"),
-				timestamp: z.string().describe("Request timestamp (MM-DD-YYYY HH:MM:SS)"),
+				title: "Log prompt",
+				description: "Logs a user's prompt to COMPLiQ. This opens the interaction, so call it before the other logging tools.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).describe("Correlation ID"),
+					content: z.string().max(40000).describe("User input prompt text"),
+					userId: z.string().max(100).optional().describe("User identifier (defaults to the authenticated user)"),
+					timestamp: z.string().optional().describe("Request timestamp (MM-DD-YYYY HH:MM:SS in the server's time zone, or ISO 8601 with an offset; defaults to now)"),
+					idempotencyKey: z.string().max(200).optional().describe("Key that makes retries of this call return the original result (derived from the arguments if omitted)"),
+				},
+				outputSchema: submissionOutput,
+				annotations: SUBMISSION_ANNOTATIONS,
 			},
-			async ({ sessionId, correlationId, content, userId, timestamp }) => {
-				console.log("Executing inputPrompt tool");
+			async ({ sessionId, correlationId, content, userId, timestamp, idempotencyKey }, extra) => {
 				try {
-					const formData = new FormData();
-					formData.append("sessionId", sessionId);
-					formData.append("correlationId", correlationId);
-					formData.append("content", content);
-					formData.append("userId", userId);
-					formData.append("timestamp", timestamp);
-
-					// Get the API key from env
-					const apiKey = this.env.COMPLIQ_API_KEY || "";
-					if (!apiKey) {
-						throw new Error("API key is not configured");
-					}
-
-					const response = await fetch("https://ai-stage-be.compliq.io/v1/actions/task-input", {
-						method: "POST",
-						headers: {
-							"Authorization": `x-api-key ${apiKey}`,
-						},
-						body: formData,
-					});
-
-					if (!response.ok) {
-						const errorText = await response.text();
-						console.error(`API Error (${response.status}):`, errorText);
-						return {
-							content: [{ type: "text", text: `Error: ${response.status} - ${errorText}` }],
-						};
-					}
-
-					const result = await response.json();
-					console.log("inputPrompt success:", result);
-					return {
-						content: [{ type: "text", text: JSON.stringify(result) }],
-					};
-				} catch (error: any) {
-					console.error("inputPrompt error:", error);
-					return {
-						content: [{ type: "text", text: `Error: ${error.message || "Unknown error"}` }],
-					};
+					const result = await this.submit("taskInput", {
+						sessionId,
+						correlationId,
+						content,
+						userId: requireUserId(userId, extra?.authInfo),
+						timestamp,
+					}, idempotencyKey, extra?.authInfo);
+					log.debug("Tool result", { result });
+					return submissionResult("taskInput", result);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
 				}
 			}
 		);
 
 		// Add File tool
-		this.server.tool(
+		this.registerTool(
 			"addFile",
 			{
-				sessionId: z.string().max(100).describe("Session identifier"),
-				correlationId: z.string().max(100).describe("Correlation ID"),
-				fileBase64: z.string().describe("Base64 encoded file data"),
-				fileName: z.string().describe("Name of the file"),
-				fileContentType: z.string().describe("Content type of the file (png, jpeg, mp3, mp4, docx, pdf, csv, xml, ogg)"),
-				userId: z.string().max(100).optional().describe("User identifier"),
-				timestamp: z.string().describe("Request timestamp (MM-DD-YYYY HH:MM:SS)"),
+				title: "Attach file",
+				description: "Logs a file attached to the user's prompt.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).describe("Correlation ID"),
+					fileBase64: z.string().optional().describe("Base64 encoded file data"),
+					uploadId: z.string().optional().describe("ID or compliq://uploads/ URI of a file staged with PUT /uploads/{id}, instead of fileBase64"),
+					fileName: z.string().optional().describe("Name of the file, with an extension matching its type (defaults to the upload's)"),
+					fileContentType: z.string().optional().describe("Type of the file: png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg, or its MIME type (defaults to the upload's)"),
+					userId: z.string().max(100).optional().describe("User identifier (defaults to the authenticated user)"),
+					timestamp: z.string().optional().describe("Request timestamp (MM-DD-YYYY HH:MM:SS in the server's time zone, or ISO 8601 with an offset; defaults to now)"),
+					idempotencyKey: z.string().max(200).optional().describe("Key that makes retries of this call return the original result (derived from the arguments if omitted)"),
+				},
+				outputSchema: submissionOutput,
+				annotations: SUBMISSION_ANNOTATIONS,
 			},
-			async ({ sessionId, correlationId, fileBase64, fileName, fileContentType, userId, timestamp }) => {
-				console.log("Executing addFile tool");
+			async ({ sessionId, correlationId, fileBase64, uploadId, fileName, fileContentType, userId, timestamp, idempotencyKey }, extra) => {
 				try {
-					const formData = new FormData();
-					formData.append("sessionId", sessionId);
-					formData.append("correlationId", correlationId);
-					
-					// Convert base64 to file
-					const binaryData = atob(fileBase64);
-					const bytes = new Uint8Array(binaryData.length);
-					for (let i = 0; i < binaryData.length; i++) {
-						bytes[i] = binaryData.charCodeAt(i);
-					}
-					const blob = new Blob([bytes], { type: fileContentType });
-					formData.append("file", blob, fileName);
-					
-					if (userId) {
-						formData.append("userId", userId);
-					}
-					formData.append("timestamp", timestamp);
-					
-					// Get the API key from env
-					const apiKey = this.env.COMPLIQ_API_KEY || "";
-					if (!apiKey) {
-						throw new Error("API key is not configured");
-					}
-					
-					const response = await fetch("https://ai-stage-be.compliq.io/v1/actions/file-input", {
-						method: "POST",
-						headers: {
-							"Authorization": `x-api-key ${apiKey}`,
-						},
-						body: formData,
-					});
-					
-					if (!response.ok) {
-						const errorText = await response.text();
-						console.error(`API Error (${response.status}):`, errorText);
-						return {
-							content: [{ type: "text", text: `Error: ${response.status} - ${errorText}` }],
-						};
-					}
-					
-					const result = await response.json();
-					console.log("addFile success:", result);
-					return {
-						content: [{ type: "text", text: JSON.stringify(result) }],
-					};
-				} catch (error: any) {
-					console.error("addFile error:", error);
-					return {
-						content: [{ type: "text", text: `Error: ${error.message || "Unknown error"}` }],
-					};
+					const result = await this.submit("fileInput", {
+						sessionId,
+						correlationId,
+						file: requireFile(await this.fileFrom({ fileBase64, uploadId, fileName, fileContentType }, extra?.authInfo)),
+						userId: resolveUserId(userId, extra?.authInfo),
+						timestamp,
+					}, idempotencyKey, extra?.authInfo);
+					log.debug("Tool result", { result });
+					return submissionResult("fileInput", result);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
 				}
 			}
 		);
 
 		// Intermediate Results tool
-		this.server.tool(
+		this.registerTool(
 			"intermediateResults",
 			{
-				sessionId: z.string().max(100).describe("Session identifier"),
-				correlationId: z.string().max(100).describe("Correlation ID"),
-				resourceName: z.string().describe("Name of the resource used"),
-				content: z.string().max(40000).optional().describe("Resource response in plain text"),
-				fileBase64: z.string().optional().describe("Base64 encoded file data"),
-				fileName: z.string().optional().describe("Name of the file"),
-				fileContentType: z.string().optional().describe("Content type of the file (png, jpeg, mp3, mp4, docx, pdf, csv, xml, ogg)"),
-				userId: z.string().max(100).describe("User ID"),
-				timestamp: z.string().describe("Intermediate result timestamp (MM-DD-YYYY HH:MM:SS)"),
+				title: "Log intermediate result",
+				description: "Logs a resource used while producing the answer, such as a retrieved document or a tool's output.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).describe("Correlation ID"),
+					resourceName: z.string().describe("Name of the resource used"),
+					content: z.string().max(40000).optional().describe("Resource response in plain text"),
+					fileBase64: z.string().optional().describe("Base64 encoded file data"),
+					uploadId: z.string().optional().describe("ID or compliq://uploads/ URI of a file staged with PUT /uploads/{id}, instead of fileBase64"),
+					fileName: z.string().optional().describe("Name of the file, with an extension matching its type (defaults to the upload's)"),
+					fileContentType: z.string().optional().describe("Type of the file: png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg, or its MIME type (defaults to the upload's)"),
+					userId: z.string().max(100).optional().describe("User ID (defaults to the authenticated user)"),
+					timestamp: z.string().optional().describe("Intermediate result timestamp (MM-DD-YYYY HH:MM:SS in the server's time zone, or ISO 8601 with an offset; defaults to now)"),
+					idempotencyKey: z.string().max(200).optional().describe("Key that makes retries of this call return the original result (derived from the arguments if omitted)"),
+				},
+				outputSchema: submissionOutput,
+				annotations: SUBMISSION_ANNOTATIONS,
 			},
-			async ({ sessionId, correlationId, resourceName, content, fileBase64, fileName, fileContentType, userId, timestamp }) => {
-				console.log("Executing intermediateResults tool");
+			async ({ sessionId, correlationId, resourceName, content, fileBase64, uploadId, fileName, fileContentType, userId, timestamp, idempotencyKey }, extra) => {
 				try {
-					const formData = new FormData();
-					formData.append("sessionId", sessionId);
-					formData.append("correlationId", correlationId);
-					formData.append("resourceName", resourceName);
-					
-					// Either content or file must be provided
-					if (content) {
-						formData.append("content", content);
-					} else if (fileBase64 && fileName && fileContentType) {
-						// Convert base64 to file
-						const binaryData = atob(fileBase64);
-						const bytes = new Uint8Array(binaryData.length);
-						for (let i = 0; i < binaryData.length; i++) {
-							bytes[i] = binaryData.charCodeAt(i);
-						}
-						const blob = new Blob([bytes], { type: fileContentType });
-						formData.append("file", blob, fileName);
-					} else {
-						throw new Error("Either content or file information must be provided");
+					const result = await this.submit("resourcesUsed", {
+						sessionId,
+						correlationId,
+						resourceName,
+						...contentOrFile(content, await this.fileFrom({ fileBase64, uploadId, fileName, fileContentType }, extra?.authInfo)),
+						userId: requireUserId(userId, extra?.authInfo),
+						timestamp,
+					}, idempotencyKey, extra?.authInfo);
+					log.debug("Tool result", { result });
+					return submissionResult("resourcesUsed", result);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+
+		// Processing Result tool
+		this.registerTool(
+			"processingResult",
+			{
+				title: "Log answer",
+				description: "Logs the final answer to the prompt. This completes the interaction.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).describe("Correlation ID"),
+					processingTime: z.string().optional().describe("Time spent by the third-party system (HH:MM:SS; defaults to the time since inputPrompt)"),
+					content: z.string().max(40000).optional().describe("Answer in plain text"),
+					fileBase64: z.string().optional().describe("Base64 encoded file data"),
+					uploadId: z.string().optional().describe("ID or compliq://uploads/ URI of a file staged with PUT /uploads/{id}, instead of fileBase64"),
+					fileName: z.string().optional().describe("Name of the file, with an extension matching its type (defaults to the upload's)"),
+					fileContentType: z.string().optional().describe("Type of the file: png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg, or its MIME type (defaults to the upload's)"),
+					userId: z.string().max(100).optional().describe("User ID (defaults to the authenticated user)"),
+					timestamp: z.string().optional().describe("Final result timestamp (MM-DD-YYYY HH:MM:SS in the server's time zone, or ISO 8601 with an offset; defaults to now)"),
+					idempotencyKey: z.string().max(200).optional().describe("Key that makes retries of this call return the original result (derived from the arguments if omitted)"),
+				},
+				outputSchema: submissionOutput,
+				annotations: SUBMISSION_ANNOTATIONS,
+			},
+			async ({ sessionId, correlationId, processingTime, content, fileBase64, uploadId, fileName, fileContentType, userId, timestamp, idempotencyKey }, extra) => {
+				try {
+					const result = await this.submit("output", {
+						sessionId,
+						correlationId,
+						processingTime,
+						...contentOrFile(content, await this.fileFrom({ fileBase64, uploadId, fileName, fileContentType }, extra?.authInfo)),
+						userId: requireUserId(userId, extra?.authInfo),
+						timestamp,
+					}, idempotencyKey, extra?.authInfo);
+					log.debug("Tool result", { result });
+					return submissionResult("output", result);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+		
+		// Log Interaction tool: the four calls above in one
+		const fileShape = {
+			fileBase64: z.string().optional().describe("Base64 encoded file data"),
+			uploadId: z.string().optional().describe("ID or compliq://uploads/ URI of a file staged with PUT /uploads/{id}, instead of fileBase64"),
+			fileName: z.string().optional().describe("Name of the file, with an extension matching its type (defaults to the upload's)"),
+			fileContentType: z.string().optional().describe("Type of the file: png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg, or its MIME type (defaults to the upload's)"),
+		};
+		this.registerTool(
+			"logInteraction",
+			{
+				title: "Log whole interaction",
+				description: "Logs a prompt, its attachments, intermediate results and answer in one call.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).describe("Correlation ID"),
+					userId: z.string().max(100).optional().describe("User identifier (defaults to the authenticated user)"),
+					timestamp: z.string().optional().describe("Timestamp for every step that does not set its own (MM-DD-YYYY HH:MM:SS in the server's time zone, or ISO 8601 with an offset; defaults to now)"),
+					prompt: z.string().max(40000).describe("User input prompt text"),
+					attachments: z.array(z.object(fileShape)).optional().describe("Files attached to the prompt"),
+					intermediateResults: z
+						.array(
+							z.object({
+								resourceName: z.string().describe("Name of the resource used"),
+								content: z.string().max(40000).optional().describe("Resource response in plain text"),
+								...fileShape,
+								timestamp: z.string().optional().describe("Intermediate result timestamp (defaults to the top-level timestamp)"),
+							}),
+						)
+						.optional()
+						.describe("Resources used while processing, in order"),
+					result: z
+						.object({
+							processingTime: z.string().optional().describe("Time spent by the third-party system (HH:MM:SS; defaults to the time since the prompt)"),
+							content: z.string().max(40000).optional().describe("Answer in plain text"),
+							...fileShape,
+							timestamp: z.string().optional().describe("Final result timestamp (defaults to the top-level timestamp)"),
+						})
+						.describe("The final answer"),
+					idempotencyKey: z.string().max(200).optional().describe("Key that makes retries of this call return the original results (derived from the arguments if omitted)"),
+				},
+				outputSchema: logInteractionOutput,
+				annotations: SUBMISSION_ANNOTATIONS,
+			},
+			async ({ sessionId, correlationId, userId, timestamp, prompt, attachments, intermediateResults, result, idempotencyKey }, extra) => {
+				let steps: InteractionStep[];
+				try {
+					// Build every request first, so bad input fails before anything is sent
+					const base = { sessionId, correlationId };
+					const user = requireUserId(userId, extra?.authInfo);
+					const attach = (file: FileArgs) => this.fileFrom(file, extra?.authInfo);
+					steps = [{ endpoint: "taskInput", request: { ...base, content: prompt, userId: user, timestamp } }];
+					for (const file of attachments ?? []) {
+						steps.push({
+							endpoint: "fileInput",
+							request: { ...base, file: requireFile(await attach(file)), userId: user, timestamp },
+						});
 					}
-					
-					formData.append("userId", userId);
-					formData.append("timestamp", timestamp);
-					
-					// Get the API key from env
-					const apiKey = this.env.COMPLIQ_API_KEY || "";
-					if (!apiKey) {
-						throw new Error("API key is not configured");
+					for (const step of intermediateResults ?? []) {
+						steps.push({
+							endpoint: "resourcesUsed",
+							request: {
+								...base,
+								resourceName: step.resourceName,
+								...contentOrFile(step.content, await attach(step)),
+								userId: user,
+								timestamp: step.timestamp ?? timestamp,
+							},
+						});
 					}
-					
-					const response = await fetch("https://ai-stage-be.compliq.io/v1/actions/resources-used", {
-						method: "POST",
-						headers: {
-							"Authorization": `x-api-key ${apiKey}`,
+					steps.push({
+						endpoint: "output",
+						request: {
+							...base,
+							processingTime: result.processingTime,
+							...contentOrFile(result.content, await attach(result)),
+							userId: user,
+							timestamp: result.timestamp ?? timestamp,
 						},
-						body: formData,
 					});
-					
-					if (!response.ok) {
-						const errorText = await response.text();
-						console.error(`API Error (${response.status}):`, errorText);
-						return {
-							content: [{ type: "text", text: `Error: ${response.status} - ${errorText}` }],
-						};
+					steps = steps.map((step) => ({ ...step, request: this.normalizeTimes(step.request) }) as InteractionStep);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+
+				// Later steps depend on earlier ones, so the first failure skips the rest.
+				// Calling again resumes: steps that went through return their stored results.
+				const report: StepReport[] = [];
+				let failed = false;
+				let blocked = false;
+				for (const [index, { endpoint, request }] of steps.entries()) {
+					if (failed) {
+						report.push({ step: endpoint, status: "skipped" });
+						continue;
+					}
+					try {
+						const stepKey = idempotencyKey && `${idempotencyKey}/${index}`;
+						const response = await this.submit(endpoint, request, stepKey, extra?.authInfo);
+						// A blocked step was still logged, so the steps after it go ahead
+						const stepBlocked = response.compliance?.decision === "block";
+						blocked ||= stepBlocked;
+						report.push({
+							step: endpoint,
+							status: stepBlocked ? "blocked" : response.status === "queued" ? "queued" : "delivered",
+							result: response,
+						});
+					} catch (error) {
+						log.error("Interaction step failed", { step: endpoint, error });
+						report.push({ step: endpoint, status: "failed", error: describeError(error) });
+						failed = true;
 					}
-					
-					const result = await response.json();
-					console.log("intermediateResults success:", result);
-					return {
-						content: [{ type: "text", text: JSON.stringify(result) }],
-					};
-				} catch (error: any) {
-					console.error("intermediateResults error:", error);
-					return {
-						content: [{ type: "text", text: `Error: ${error.message || "Unknown error"}` }],
-					};
 				}
+				const statuses = report.map((step) => `${step.step} ${step.status}`).join(", ");
+				log.info("Interaction logged", { steps: statuses });
+				const logged = report.filter((step) => step.result).length;
+				return {
+					...toolResult(
+						{ completed: !failed, blocked, steps: report },
+						`Logged ${logged} of ${report.length} steps for ${sessionId}/${correlationId}: ${statuses}.`,
+					),
+					isError: failed || blocked,
+				};
 			}
 		);
-
-		// Processing Result tool
-		this.server.tool(
-			"processingResult",
+		
+		// Redaction dry-run tool
+		this.registerTool(
+			"previewRedaction",
 			{
-				sessionId: z.string().max(100).describe("Session identifier"),
-				correlationId: z.string().max(100).describe("Correlation ID"),
-				processingTime: z.string().describe("Time spent by the third-party system (HH:MM:SS)"),
-				content: z.string().max(40000).optional().describe("Answer in plain text"),
-				fileBase64: z.string().optional().describe("Base64 encoded file data"),
-				fileName: z.string().optional().describe("Name of the file"),
-				fileContentType: z.string().optional().describe("Content type of the file (png, jpeg, mp3, mp4, docx, pdf, csv, xml, ogg)"),
-				userId: z.string().max(100).describe("User ID"),
-				timestamp: z.string().describe("Final result timestamp (MM-DD-YYYY HH:MM:SS)"),
+				title: "Preview redaction",
+				description: "Shows what redaction would do to content, without sending anything to COMPLiQ.",
+				inputSchema: {
+					content: z.string().max(40000).describe("Text to check, as it would be passed to inputPrompt, intermediateResults or processingResult"),
+				},
+				outputSchema: previewRedactionOutput,
+				annotations: READ_ONLY_ANNOTATIONS,
 			},
-			async ({ sessionId, correlationId, processingTime, content, fileBase64, fileName, fileContentType, userId, timestamp }) => {
-				console.log("Executing processingResult tool");
+			async ({ content }) => {
 				try {
-					const formData = new FormData();
-					formData.append("sessionId", sessionId);
-					formData.append("correlationId", correlationId);
-					formData.append("processingTime", processingTime);
-					
-					// Either content or file must be provided
-					if (content) {
-						formData.append("content", content);
-					} else if (fileBase64 && fileName && fileContentType) {
-						// Convert base64 to file
-						const binaryData = atob(fileBase64);
-						const bytes = new Uint8Array(binaryData.length);
-						for (let i = 0; i < binaryData.length; i++) {
-							bytes[i] = binaryData.charCodeAt(i);
+					const { text, matches } = await this.redactor.redact(content);
+					const report = summarizeRedaction(matches);
+					return toolResult(
+						{
+							content: text,
+							...report,
+							matches: matches.map((match) => ({
+								...match,
+								value: content.slice(match.start, match.end),
+							})),
+						},
+						report.redacted > 0
+							? `Would redact ${report.redacted} value(s): ${Object.keys(report.rules).join(", ")}.`
+							: "Nothing would be redacted.",
+					);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+		
+		// Compliance check tool
+		this.registerTool(
+			"checkCompliance",
+			{
+				title: "Check compliance",
+				description: "Checks a prompt or answer against the tenant's policy pack, without sending anything to COMPLiQ.",
+				inputSchema: {
+					content: z.string().max(40000).describe("Prompt or answer text to check"),
+					target: z.enum(["prompt", "answer"]).describe("Whether the content is a user prompt or the system's answer"),
+				},
+				outputSchema: checkComplianceOutput,
+				annotations: READ_ONLY_ANNOTATIONS,
+			},
+			async ({ content, target }) => {
+				try {
+					const pack = await this.policies.get();
+					if (!pack) {
+						return toolResult(
+							{ decision: "allow", reasons: [], policyPack: false },
+							"Allowed: the tenant has no policy pack.",
+						);
+					}
+					const result = evaluatePolicy(pack, target, content);
+					return toolResult({ ...result, policyPack: true }, describePolicyResult(result));
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+		
+		// Policy pack tool
+		this.registerTool(
+			"policyPack",
+			{
+				title: "Manage policy pack",
+				description: "Shows, replaces or removes the tenant's policy pack. Replacing and removing it need the admin scope.",
+				inputSchema: {
+					action: z.enum(["get", "set", "clear"]).describe("Show the tenant's policy pack, replace it, or remove it"),
+					pack: policyPackSchema.optional().describe("The new policy pack, for set"),
+				},
+				outputSchema: policyPackOutput,
+				annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+			},
+			async ({ action, pack }, extra) => {
+				try {
+					if (action === "get") {
+						const current = await this.policies.get();
+						return toolResult(
+							{ pack: current ?? null },
+							current ? "The tenant's policy pack is set." : "The tenant has no policy pack.",
+						);
+					}
+					requireScope(extra?.authInfo, ADMIN_SCOPE);
+					if (action === "clear") {
+						await this.policies.clear();
+						return toolResult({ pack: null }, "Policy pack removed.");
+					}
+					if (!pack) {
+						throw new ToolInputError("pack is required to set the policy pack");
+					}
+					await this.policies.set(pack);
+					return toolResult({ pack }, "Policy pack replaced.");
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+		
+		// Interaction status tool
+		this.registerTool(
+			"getInteractionStatus",
+			{
+				title: "Get interaction status",
+				description: "Shows how far interactions have got and any problems flagged with them.",
+				inputSchema: {
+					sessionId: z.string().max(100).describe("Session identifier"),
+					correlationId: z.string().max(100).optional().describe("Correlation ID (lists every interaction of the session if omitted)"),
+				},
+				outputSchema: interactionStatusOutput,
+				annotations: READ_ONLY_ANNOTATIONS,
+			},
+			async ({ sessionId, correlationId }, extra) => {
+				try {
+					let interactions: Interaction[];
+					if (correlationId) {
+						const interaction = await this.interactions.get(sessionId, correlationId);
+						// Someone else's interaction is reported as missing, so IDs cannot be probed
+						if (!interaction || !mayRead(interaction, extra?.authInfo)) {
+							throw new ToolInputError(`No interaction found for ${sessionId}/${correlationId}`);
 						}
-						const blob = new Blob([bytes], { type: fileContentType });
-						formData.append("file", blob, fileName);
+						interactions = [interaction];
 					} else {
-						throw new Error("Either content or file information must be provided");
+						interactions = (await this.interactions.list(sessionId)).filter((interaction) =>
+							mayRead(interaction, extra?.authInfo),
+						);
 					}
-					
-					formData.append("userId", userId);
-					formData.append("timestamp", timestamp);
-					
-					// Get the API key from env
-					const apiKey = this.env.COMPLIQ_API_KEY || "";
-					if (!apiKey) {
-						throw new Error("API key is not configured");
+					const states = interactions.map((interaction) => `${interaction.correlationId} ${interaction.state}${interaction.staleAt === undefined ? "" : " (stale)"}`);
+					return toolResult(
+						{ interactions: interactions.map(summarizeInteraction) },
+						interactions.length > 0 ? `${states.join(", ")}.` : `No interactions found for ${sessionId}.`,
+					);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+		
+		// Dead-letter queue tool
+		this.registerTool(
+			"deadLetterQueue",
+			{
+				title: "Manage queued submissions",
+				description: "Lists submissions waiting to be delivered and dead letters, or replays or purges dead letters. Needs the admin scope.",
+				inputSchema: {
+					action: z.enum(["list", "replay", "purge"]).describe("List queued and dead-lettered submissions, replay dead letters, or purge them"),
+					ids: z.array(z.string()).optional().describe("Dead letters to replay or purge (defaults to all)"),
+				},
+				outputSchema: deadLetterQueueOutput,
+				annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
+			},
+			async ({ action, ids }, extra) => {
+				try {
+					// Queued submissions carry other users' IDs, file names and upstream errors
+					requireScope(extra?.authInfo, ADMIN_SCOPE);
+					if (action === "list") {
+						const pending = await this.outbox.pending();
+						const deadLetters = await this.outbox.deadLetters();
+						return toolResult(
+							{
+								pending: pending.map(summarizeSubmission),
+								deadLetters: deadLetters.map(summarizeSubmission),
+							},
+							`${pending.length} submission(s) waiting to be delivered, ${deadLetters.length} dead letter(s).`,
+						);
 					}
-					
-					const response = await fetch("https://ai-stage-be.compliq.io/v1/actions/output", {
-						method: "POST",
-						headers: {
-							"Authorization": `x-api-key ${apiKey}`,
-						},
-						body: formData,
-					});
-					
-					if (!response.ok) {
-						const errorText = await response.text();
-						console.error(`API Error (${response.status}):`, errorText);
-						return {
-							content: [{ type: "text", text: `Error: ${response.status} - ${errorText}` }],
-						};
+					if (action === "replay") {
+						const replayed = await this.outbox.replay(ids);
+						await this.scheduleAlarm(Date.now());
+						return toolResult({ replayed }, `Replayed ${replayed} dead letter(s).`);
 					}
-					
-					const result = await response.json();
-					console.log("processingResult success:", result);
-					return {
-						content: [{ type: "text", text: JSON.stringify(result) }],
-					};
-				} catch (error: any) {
-					console.error("processingResult error:", error);
-					return {
-						content: [{ type: "text", text: `Error: ${error.message || "Unknown error"}` }],
-					};
+					const purged = await this.outbox.purge(ids);
+					await this.scheduleAlarm(Date.now());
+					return toolResult({ purged }, `Purged ${purged} dead letter(s).`);
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
 				}
 			}
 		);
 		
-		console.log("All COMPLiQ tools initialized");
+		// Quota status tool; not rate limited itself, so a limited client can see when to retry
+		this.registerTool(
+			"quotaStatus",
+			{
+				title: "Check rate limits",
+				description: "Shows how many calls and upload bytes are left before the caller is rate limited.",
+				inputSchema: {
+					userId: z.string().max(100).optional().describe("User to check (defaults to the caller; others need the admin scope)"),
+				},
+				outputSchema: quotaStatusOutput,
+				annotations: READ_ONLY_ANNOTATIONS,
+			},
+			async ({ userId }, extra) => {
+				try {
+					const context = this.transport.contextFor(extra.requestId) ?? { authInfo: extra?.authInfo };
+					const keys = this.limitKeysFor(context);
+					// Other users' quotas are for admins only
+					if (userId !== undefined && userId !== keys.user) {
+						requireScope(extra?.authInfo, ADMIN_SCOPE);
+						keys.user = userId;
+					}
+					const status = await this.limits.status({ tenant: true, ...keys });
+					return toolResult(status, describeQuotaStatus(status));
+				} catch (error) {
+					log.error("Tool call failed", { error });
+					return toolError(error);
+				}
+			}
+		);
+
+	}
+}
+
+// What a tool reports when its submission was queued instead of delivered
+interface QueuedResult {
+	status: "queued";
+	reason: string;
+	nextAttemptAt?: string;
+}
+
+// A numeric variable, or undefined when unset; anything but a positive number falls back to the default
+function numberVar(env: Env, name: keyof Env): number | undefined {
+	const value = env[name];
+	if (typeof value !== "string" || value === "") {
+		return undefined;
+	}
+	const number = Number(value);
+	if (!Number.isFinite(number) || number <= 0) {
+		log.error(`${name} is not a positive number, using the default`, { value });
+		return undefined;
+	}
+	return number;
+}
+
+// INTERACTION_ENFORCEMENT, or undefined when unset; anything but a known mode falls back to the default
+function enforcementVar(env: Env): InteractionEnforcement | undefined {
+	const value = env.INTERACTION_ENFORCEMENT;
+	if (!value) {
+		return undefined;
+	}
+	if (value !== "reject" && value !== "flag") {
+		log.error("INTERACTION_ENFORCEMENT is not reject or flag, using the default", { value });
+		return undefined;
+	}
+	return value;
+}
+
+// Bytes of a file sent inline as base64; staged uploads were counted when they were PUT
+function inlineFileBytes(request: object): number {
+	const data = (request as { file?: CompliqFile }).file?.data;
+	return data instanceof Uint8Array ? data.byteLength : 0;
+}
+
+// Where a submission stands once deliver returns
+function deliveryStatus(
+	delivery: CompliqRecord | QueuedResult,
+): Pick<SubmitResult, "status" | "recordId" | "record" | "reason" | "nextAttemptAt"> {
+	if (delivery.status === "queued") {
+		return delivery as QueuedResult;
+	}
+	const record = delivery as CompliqRecord;
+	return {
+		status: "delivered",
+		recordId: record.id === undefined ? undefined : String(record.id),
+		record,
+	};
+}
+
+// Submissions write to COMPLiQ, outside this server; a retry with the same arguments is not logged twice
+const SUBMISSION_ANNOTATIONS = {
+	readOnlyHint: false,
+	destructiveHint: false,
+	idempotentHint: true,
+	openWorldHint: true,
+};
+
+// Tools that only read the tenant's own state
+const READ_ONLY_ANNOTATIONS = { readOnlyHint: true, openWorldHint: false };
+
+// Which content the policy pack checks: prompts and final answers
+const POLICY_TARGETS: Partial<Record<CompliqEndpoint, PolicyTarget>> = {
+	taskInput: "prompt",
+	output: "answer",
+};
+
+// JSON-RPC error code for rate limited calls, in the server error range; mirrors HTTP 429
+const RATE_LIMITED = -32029;
+
+function updateSubscriptions(socket: WebSocket, update: (subscriptions: string[]) => string[]) {
+	const session: SocketSession = socket.deserializeAttachment();
+	socket.serializeAttachment({ ...session, subscriptions: update(session.subscriptions) });
+}
+
+function rateLimitedError(error: RateLimitError) {
+	return {
+		code: RATE_LIMITED,
+		message: error.message,
+		data: { scope: error.scope, retryAfter: error.retryAfter },
+	};
+}
+
+// Sessions per resources/list page
+const RESOURCE_PAGE_SIZE = 50;
+
+// Default page of GET /admin/tenants/{tenant}/audit
+const AUDIT_PAGE_SIZE = 100;
+
+// The resources a client can subscribe to
+const HISTORY_URI = /^compliq:\/\/(sessions|interactions)\/([^/]+)$/;
+
+// Clients see the sessions and interactions they logged; admins and unauthenticated deployments see them all
+function mayRead(owned: { subject?: string }, authInfo?: AuthInfo): boolean {
+	const principal = principalFromAuthInfo(authInfo);
+	return !principal || principal.scopes.includes(ADMIN_SCOPE) || owned.subject === principal.subject;
+}
+
+function jsonResource(uri: URL, data: unknown) {
+	return {
+		contents: [{ uri: uri.toString(), mimeType: "application/json", text: JSON.stringify(data) }],
+	};
+}
+
+function describeHistorySession(session: HistorySession) {
+	return {
+		sessionId: session.sessionId,
+		firstAt: new Date(session.firstAt).toISOString(),
+		lastAt: new Date(session.lastAt).toISOString(),
+		submissions: session.events,
+		interactions: session.correlationIds.map((correlationId) => ({
+			correlationId,
+			uri: interactionUri(correlationId),
+		})),
+	};
+}
+
+function describeHistoryEvent(event: HistoryEvent) {
+	return { ...event, at: new Date(event.at).toISOString() };
+}
+
+// A submission blocked by policy was logged, but the client must not treat it as accepted
+function submissionResult(endpoint: CompliqEndpoint, result: SubmitResult) {
+	const reply = toolResult({ ...result }, describeSubmission(endpoint, result));
+	if (result.compliance?.decision === "block") {
+		return { ...reply, isError: true };
+	}
+	return reply;
+}
+
+function summarizeSubmission(item: QueuedSubmission | DeadLetter) {
+	return {
+		id: item.id,
+		endpoint: item.endpoint,
+		sessionId: item.request.sessionId,
+		correlationId: item.request.correlationId,
+		file: item.file && { name: item.file.name, contentType: item.file.contentType },
+		attempts: item.attempts,
+		createdAt: new Date(item.createdAt).toISOString(),
+		nextAttemptAt: new Date(item.nextAttemptAt).toISOString(),
+		deadAt: "deadAt" in item ? new Date(item.deadAt).toISOString() : undefined,
+		lastError: item.lastError,
+	};
+}
+
+// A submission as the tools build it; the server fills in the times a client left out
+type SubmissionDraft<E extends CompliqEndpoint> = Omit<CompliqRequests[E], "timestamp"> & {
+	timestamp?: string;
+	processingTime?: string;
+};
+
+// One submission of a logInteraction call
+type InteractionStep = {
+	[E in CompliqEndpoint]: { endpoint: E; request: SubmissionDraft<E> };
+}[CompliqEndpoint];
+
+interface StepReport {
+	step: CompliqEndpoint;
+	status: "delivered" | "queued" | "blocked" | "failed" | "skipped";
+	result?: SubmitResult;
+	error?: ReturnType<typeof describeError>;
+}
+
+function describeUpload(upload: Upload) {
+	return {
+		uploadId: upload.id,
+		uri: uploadUri(upload.id),
+		name: upload.name,
+		contentType: upload.contentType,
+		size: upload.size,
+		expectedSize: upload.expectedSize,
+		complete: upload.complete,
+		expiresAt: new Date(upload.expiresAt).toISOString(),
+	};
+}
+
+function summarizeInteraction(interaction: Interaction) {
+	const iso = (at?: number) => (at === undefined ? undefined : new Date(at).toISOString());
+	return {
+		sessionId: interaction.sessionId,
+		correlationId: interaction.correlationId,
+		state: interaction.state,
+		stale: interaction.staleAt !== undefined,
+		files: interaction.files,
+		intermediateSteps: interaction.steps,
+		openedAt: iso(interaction.openedAt),
+		updatedAt: iso(interaction.updatedAt),
+		completedAt: iso(interaction.completedAt),
+		flags: interaction.flags.map((flag) => ({ ...flag, at: iso(flag.at) })),
+	};
+}
+
+// Reads what the client is still sending; answering before the body is read breaks the connection
+async function drainBody(request: Request) {
+	if (request.body && !request.bodyUsed) {
+		const reader = request.body.getReader();
+		while (!(await reader.read()).done) {}
+	}
+}
+
+// How tools take a file: inline as base64, or staged beforehand with PUT /uploads/{id}
+interface FileArgs {
+	fileBase64?: string;
+	uploadId?: string;
+	fileName?: string;
+	fileContentType?: string;
+}
+
+function requireFile(file?: CompliqFile): CompliqFile {
+	if (!file) {
+		throw new ToolInputError("Either fileBase64 with fileName and fileContentType, or uploadId must be provided");
+	}
+	return file;
+}
+
+// Tools that log a result accept it either as text or as a file
+function contentOrFile(content?: string, file?: CompliqFile): { content: string } | { file: CompliqFile } {
+	if (content) {
+		return { content };
+	}
+	if (file) {
+		return { file };
 	}
+	throw new ToolInputError("Either content or file information must be provided");
 }
 
 // Worker entry point
 export default {
+	// Gives each request a trace ID, passed on to the Durable Object and COMPLiQ and sent back to the client
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		try {
-			const url = new URL(request.url);
-			console.log("Worker request:", request.method, url.pathname);
-			
-			// Handle CORS preflight
-			if (request.method === "OPTIONS") {
-				return new Response(null, {
-					headers: {
+		setLogLevel(env.LOG_LEVEL);
+		const traceId = traceIdFrom(request);
+		const response = await withTrace({ traceId }, () => handleRequest(request, env, ctx));
+		// A WebSocket upgrade has to hand on its socket, which copying the response would drop
+		const traced = response.webSocket
+			? new Response(null, { status: 101, webSocket: response.webSocket, headers: response.headers })
+			: new Response(response.body, response);
+		traced.headers.set(TRACE_HEADER, traceId);
+		return traced;
+	},
+};
+
+async function handleRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		workerLog.info("Request received", { method: request.method, path: url.pathname });
+		
+		// Handle CORS preflight
+		if (request.method === "OPTIONS") {
+			return new Response(null, {
+				headers: {
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+					"Access-Control-Allow-Headers": "*",
+					"Access-Control-Max-Age": "86400",
+				},
+			});
+		}
+		
+		// Liveness: the worker runs. It says nothing about configuration or backends
+		if (url.pathname === "/health") {
+			return new Response(
+				JSON.stringify({ status: "ok", timestamp: new Date().toISOString() }),
+				{
+					status: 200,
+					headers: { 
+						"Content-Type": "application/json",
+						"Cache-Control": "no-store",
 						"Access-Control-Allow-Origin": "*",
-						"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+						"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
 						"Access-Control-Allow-Headers": "*",
-						"Access-Control-Max-Age": "86400",
 					},
-				});
+				}
+			);
+		}
+
+		// Readiness of a tenant: /ready for the default one, /t/{tenant}/ready for others
+		if (parseTenantPath(url.pathname).route === "/ready") {
+			return await ready(request, env);
+		}
+
+		// Tells MCP clients which authorization server issues tokens for us
+		if (url.pathname.startsWith("/.well-known/oauth-protected-resource")) {
+			if (!isOAuthEnabled(env)) {
+				return new Response("Not found", { status: 404 });
 			}
-			
-			// Health check endpoint
-			if (url.pathname === "/health") {
-				// Test to see if API key is accessible
-				let apiKeyValue = "undefined";
-				let apiKeyType = "undefined";
-				let apiKeyFirstChars = null as string | null;
-				
+			return new Response(JSON.stringify(protectedResourceMetadata(request, env)), {
+				headers: {
+					"Content-Type": "application/json",
+					"Access-Control-Allow-Origin": "*",
+				},
+			});
+		}
+
+		// Admin listing of configured and previously seen tenants
+		if (url.pathname === "/admin/tenants") {
+			return await listTenants(request, env);
+		}
+
+		// Prometheus metrics of every tenant, for admins
+		if (url.pathname === "/metrics") {
+			return await metrics(request, env);
+		}
+
+		// Admin access to a tenant's outbound dead-letter queue
+		const deadLetters = /^\/admin\/tenants\/([^/]+)(\/dead-letters(?:\/replay)?|\/audit)$/.exec(url.pathname);
+		if (deadLetters) {
+			return await forwardTenantAdmin(request, env, deadLetters[1], `/admin${deadLetters[2]}`);
+		}
+
+		// Forward to the Durable Object of the tenant the request belongs to
+		const { route } = parseTenantPath(url.pathname);
+		if (route === "/mcp" || route === "/sse" || route === "/sse/message" || route === "/ws" || route.startsWith("/uploads/")) {
+			let principal: Principal | undefined;
+			if (!isAuthDisabled(env)) {
 				try {
-					apiKeyValue = env.COMPLIQ_API_KEY;
-					apiKeyType = typeof apiKeyValue;
-					
-					if (apiKeyType === 'string' && apiKeyValue.length > 0) {
-						apiKeyFirstChars = apiKeyValue.substring(0, 5) + "...";
-					}
+					principal = await authenticate(request, env);
 				} catch (error) {
-					console.error("Error in health check:", error);
-				}
-				
-				return new Response(
-					JSON.stringify({
-						status: "ok",
-						timestamp: new Date().toISOString(),
-						// Environment inspection
-						envKeys: Object.keys(env),
-						hasApiKeyInKeys: Object.keys(env).includes("COMPLIQ_API_KEY"),
-						// API key inspection
-						apiKeyType: apiKeyType,
-						apiKeyLength: apiKeyType === 'string' ? apiKeyValue.length : 0,
-						apiKeyFirstChars: apiKeyFirstChars,
-						// MCP binding
-						hasMcpObjectBinding: !!env.MCP_OBJECT
-					}),
-					{
-						status: 200,
-						headers: { 
-							"Content-Type": "application/json",
-							"Access-Control-Allow-Origin": "*",
-							"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-							"Access-Control-Allow-Headers": "*",
-						},
+					if (error instanceof AuthError) {
+						workerLog.warn("Rejected unauthenticated request", { error: error.message });
+						return unauthorizedResponse(error, request, env);
 					}
-				);
+					throw error;
+				}
 			}
 
-			// Forward to the Durable Object
-			if (url.pathname === "/mcp" || url.pathname === "/sse" || url.pathname === "/sse/message") {
-				// Create an ID for the Durable Object
-				const doId = env.MCP_OBJECT.idFromName("singleton");
-				// Get a stub to the specific Durable Object instance
-				const doStub = env.MCP_OBJECT.get(doId);
-				
-				// Forward the request to the Durable Object
-				return await doStub.fetch(request);
+			let tenant: string;
+			try {
+				tenant = resolveTenant(request, env, principal?.tenant);
+				authorizeTenant(env, tenant, principal?.tenant);
+			} catch (error) {
+				if (error instanceof TenantError) {
+					return new Response(error.message, {
+						status: error.status,
+						headers: { "Access-Control-Allow-Origin": "*" },
+					});
+				}
+				throw error;
 			}
+
+			// Create an ID for the tenant's Durable Object
+			const doId = env.MCP_OBJECT.idFromName(tenant);
+			// Get a stub to the specific Durable Object instance
+			const doStub = env.MCP_OBJECT.get(doId);
 			
-			// Not found for all other paths
-			return new Response("Not found", { 
-				status: 404,
-				headers: {
-					"Access-Control-Allow-Origin": "*",
-					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-					"Access-Control-Allow-Headers": "*",
-				}
-			});
-		} catch (e: any) {
-			console.error("Error in worker:", e);
-			return new Response(`Server error: ${e.message || String(e)}`, { 
-				status: 500,
-				headers: { 
-					"Content-Type": "text/plain",
-					"Access-Control-Allow-Origin": "*",
-					"Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-					"Access-Control-Allow-Headers": "*",
-				},
+			// Forward the request to the Durable Object, overriding any client-supplied identity
+			const forwarded = new Request(request);
+			forwarded.headers.set(TENANT_HEADER, tenant);
+			forwarded.headers.set(TRACE_HEADER, currentTrace()!.traceId);
+			forwarded.headers.delete(PRINCIPAL_HEADER);
+			if (principal) {
+				forwarded.headers.set(PRINCIPAL_HEADER, JSON.stringify(principal));
+			}
+			return await doStub.fetch(forwarded);
+		}
+		
+		// Not found for all other paths
+		return new Response("Not found", { 
+			status: 404,
+			headers: {
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+				"Access-Control-Allow-Headers": "*",
+			}
+		});
+	} catch (e: any) {
+		// A tenant segment in the path that cannot be decoded is the client's mistake
+		if (e instanceof TenantError) {
+			return new Response(e.message, {
+				status: e.status,
+				headers: { "Access-Control-Allow-Origin": "*" },
 			});
 		}
-	},
-};
+		workerLog.error("Request failed", { error: e });
+		return new Response(`Server error: ${e.message || String(e)}`, { 
+			status: 500,
+			headers: { 
+				"Content-Type": "text/plain",
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+				"Access-Control-Allow-Headers": "*",
+			},
+		});
+	}
+}
+
+function isAdmin(request: Request, env: Env): boolean {
+	const token = request.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+	return !!env.ADMIN_TOKEN && !!token && safeEqual(token, env.ADMIN_TOKEN);
+}
+
+// Hands an admin request to the Durable Object of one tenant
+async function forwardTenantAdmin(
+	request: Request,
+	env: Env,
+	tenant: string,
+	route: string,
+): Promise<Response> {
+	if (!isAdmin(request, env)) {
+		return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+	}
+	if (!isValidTenant(tenant)) {
+		return new Response(`Invalid tenant name: ${tenant}`, { status: 400 });
+	}
+	// Any other name would wake up a Durable Object for a tenant that does not exist
+	if (!isKnownTenant(env, tenant)) {
+		return new Response(`Unknown tenant: ${tenant}`, { status: 404 });
+	}
+
+	const url = new URL(request.url);
+	url.pathname = route;
+	const forwarded = new Request(url.toString(), { method: request.method });
+	forwarded.headers.set(TENANT_HEADER, tenant);
+	forwarded.headers.set(TRACE_HEADER, currentTrace()!.traceId);
+	const stub = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(tenant));
+	return stub.fetch(forwarded);
+}
+
+/**
+ * Checks a tenant can serve requests: it has a COMPLiQ API key, its Durable Object answers,
+ * COMPLiQ can be reached and the outbox is not backed up. Only admins see the details.
+ */
+async function ready(request: Request, env: Env): Promise<Response> {
+	let tenant: string;
+	try {
+		tenant = resolveTenant(request, env);
+	} catch (error) {
+		if (error instanceof TenantError) {
+			return new Response(error.message, { status: error.status });
+		}
+		throw error;
+	}
+	const detailed = isAdmin(request, env);
+	const config = getTenantConfig(env, tenant);
+	// Only tenants that exist get a Durable Object woken up for them
+	if (!isKnownTenant(env, tenant)) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	const checks: Checks = {
+		apiKey: {
+			ok: !!(config.compliqApiKey || env.COMPLIQ_API_KEY),
+			detail: { source: config.compliqApiKey ? "tenant" : env.COMPLIQ_API_KEY ? "COMPLIQ_API_KEY" : null },
+		},
+	};
+	try {
+		const forwarded = new Request("https://durable-object/ready");
+		forwarded.headers.set(TENANT_HEADER, tenant);
+		forwarded.headers.set(TRACE_HEADER, currentTrace()!.traceId);
+		const stub = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(tenant));
+		const response = await withTimeout(
+			stub.fetch(forwarded),
+			READY_TIMEOUT_MS,
+			`Durable Object did not respond within ${READY_TIMEOUT_MS}ms`,
+		);
+		if (!response.ok) {
+			throw new Error(`Durable Object answered ${response.status}: ${await response.text()}`);
+		}
+		const body: { checks: Checks } = await response.json();
+		checks.durableObject = { ok: true };
+		Object.assign(checks, body.checks);
+	} catch (error) {
+		checks.durableObject = { ok: false, detail: (error as Error).message };
+	}
+
+	const report = readinessReport(tenant, checks, detailed);
+	return new Response(JSON.stringify(report), {
+		status: report.status === "ready" ? 200 : 503,
+		headers: {
+			"Content-Type": "application/json",
+			"Cache-Control": "no-store",
+			"Access-Control-Allow-Origin": "*",
+		},
+	});
+}
+
+async function listTenants(request: Request, env: Env): Promise<Response> {
+	if (!isAdmin(request, env)) {
+		return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+	}
+
+	const seen = await seenTenants(env);
+	const configured = Object.keys(getTenantConfigs(env));
+
+	const names = new Set([...configured, ...seen.map((record) => record.tenant)]);
+	const tenants = [...names].sort().map((tenant) => ({
+		tenant,
+		configured: configured.includes(tenant),
+		firstSeen: seen.find((record) => record.tenant === tenant)?.firstSeen ?? null,
+	}));
+
+	return new Response(JSON.stringify({ tenants }), {
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+async function seenTenants(env: Env): Promise<TenantRecord[]> {
+	const registry = env.TENANT_REGISTRY.get(env.TENANT_REGISTRY.idFromName("registry"));
+	return (await registry.fetch("https://registry/tenants")).json();
+}
+
+/**
+ * Collects the counters of every configured or previously seen tenant from its Durable
+ * Object. A tenant that does not answer in time is left out of this scrape.
+ */
+async function metrics(request: Request, env: Env): Promise<Response> {
+	if (!isAdmin(request, env)) {
+		return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+	}
+
+	const seen = await seenTenants(env);
+	const tenants = new Set([...Object.keys(getTenantConfigs(env)), ...seen.map((record) => record.tenant)]);
+	const snapshots: Record<string, MetricsSnapshot> = {};
+	await Promise.all(
+		[...tenants].map(async (tenant) => {
+			try {
+				const forwarded = new Request("https://durable-object/metrics");
+				forwarded.headers.set(TENANT_HEADER, tenant);
+				forwarded.headers.set(TRACE_HEADER, currentTrace()!.traceId);
+				const stub = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(tenant));
+				const response = await withTimeout(
+					stub.fetch(forwarded),
+					READY_TIMEOUT_MS,
+					`Durable Object did not respond within ${READY_TIMEOUT_MS}ms`,
+				);
+				if (!response.ok) {
+					throw new Error(`Durable Object answered ${response.status}`);
+				}
+				snapshots[tenant] = await response.json();
+			} catch (error) {
+				workerLog.warn("Collecting metrics failed", { tenant, error });
+			}
+		}),
+	);
+
+	return new Response(renderPrometheus(snapshots), {
+		headers: { "Content-Type": "text/plain; version=0.0.4", "Cache-Control": "no-store" },
+	});
+}
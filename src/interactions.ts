@@ -0,0 +1,246 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { logger } from "./logger";
+import type { CompliqEndpoint } from "./targets";
+
+const log = logger("interactions");
+
+const KEY_PREFIX = "interaction:";
+
+export const DEFAULT_INTERACTION_TIMEOUT_MS = 30 * 60 * 1000;
+// Finished interactions are kept this long for getInteractionStatus, then deleted
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type InteractionState = "opened" | "files_attached" | "in_progress" | "completed";
+
+// What happens to a call that does not fit the interaction's state
+export type InteractionEnforcement = "reject" | "flag";
+
+export interface InteractionFlag {
+	type: "out_of_order" | "stale";
+	message: string;
+	at: number;
+}
+
+export interface Interaction {
+	sessionId: string;
+	correlationId: string;
+	state: InteractionState;
+	openedAt: number;
+	updatedAt: number;
+	// Timestamp of the inputPrompt submission, for working out processingTime
+	promptTimestamp?: string;
+	completedAt?: number;
+	files: number;
+	steps: number;
+	// Set once the alarm found the interaction open past its timeout
+	staleAt?: number;
+	flags: InteractionFlag[];
+	// Principal that opened the interaction; only it and admins can see its status
+	subject?: string;
+}
+
+export interface InteractionOptions {
+	timeoutMs?: number;
+	enforcement?: InteractionEnforcement;
+}
+
+// The call would break the inputPrompt → addFile → intermediateResults → processingResult order
+export class InteractionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InteractionError";
+	}
+}
+
+// The state each endpoint moves an interaction to
+const NEXT_STATE: Record<CompliqEndpoint, InteractionState> = {
+	taskInput: "opened",
+	fileInput: "files_attached",
+	resourcesUsed: "in_progress",
+	output: "completed",
+};
+
+// The tool behind each endpoint, for messages clients can act on
+const TOOL_NAMES: Record<CompliqEndpoint, string> = {
+	taskInput: "inputPrompt",
+	fileInput: "addFile",
+	resourcesUsed: "intermediateResults",
+	output: "processingResult",
+};
+
+// The states each endpoint may be called in; undefined means no prompt yet
+const ALLOWED_FROM: Record<CompliqEndpoint, (InteractionState | undefined)[]> = {
+	taskInput: [undefined],
+	fileInput: ["opened", "files_attached"],
+	resourcesUsed: ["opened", "files_attached", "in_progress"],
+	output: ["opened", "files_attached", "in_progress"],
+};
+
+/**
+ * Tracks each interaction (one correlationId within a session) through the order the
+ * tools are meant to be called in, and flags interactions that were never completed.
+ */
+export class InteractionTracker {
+	private storage: DurableObjectStorage;
+	private timeoutMs: number;
+	private enforcement: InteractionEnforcement;
+
+	constructor(storage: DurableObjectStorage, options: InteractionOptions = {}) {
+		this.storage = storage;
+		this.timeoutMs = options.timeoutMs ?? DEFAULT_INTERACTION_TIMEOUT_MS;
+		this.enforcement = options.enforcement ?? "flag";
+	}
+
+	get(sessionId: string, correlationId: string): Promise<Interaction | undefined> {
+		return this.storage.get<Interaction>(interactionKey(sessionId, correlationId));
+	}
+
+	async list(sessionId?: string): Promise<Interaction[]> {
+		const prefix = sessionId ? `${KEY_PREFIX}${encodeURIComponent(sessionId)}/` : KEY_PREFIX;
+		const entries = await this.storage.list<Interaction>({ prefix });
+		return [...entries.values()];
+	}
+
+	// Throws if the call is out of order and such calls are rejected, else returns what is wrong with it
+	async check(
+		endpoint: CompliqEndpoint,
+		request: { sessionId: string; correlationId: string },
+	): Promise<string | undefined> {
+		const interaction = await this.get(request.sessionId, request.correlationId);
+		const problem = orderProblem(endpoint, interaction);
+		if (problem && this.enforcement === "reject") {
+			throw new InteractionError(problem);
+		}
+		return problem;
+	}
+
+	// Moves the interaction along after a successful submission, flagging it if out of order
+	async record(
+		endpoint: CompliqEndpoint,
+		request: { sessionId: string; correlationId: string; timestamp: string },
+		subject?: string,
+		now = Date.now(),
+	): Promise<Interaction> {
+		const key = interactionKey(request.sessionId, request.correlationId);
+		const existing = await this.storage.get<Interaction>(key);
+		const interaction: Interaction = existing ?? {
+			sessionId: request.sessionId,
+			correlationId: request.correlationId,
+			state: NEXT_STATE[endpoint],
+			openedAt: now,
+			updatedAt: now,
+			files: 0,
+			steps: 0,
+			flags: [],
+			subject,
+		};
+
+		const problem = orderProblem(endpoint, existing);
+		if (problem) {
+			interaction.flags.push({ type: "out_of_order", message: problem, at: now });
+			log.warn("Call made out of order", {
+				sessionId: interaction.sessionId,
+				correlationId: interaction.correlationId,
+				problem,
+			});
+		}
+
+		if (endpoint === "taskInput" && !interaction.promptTimestamp) {
+			interaction.promptTimestamp = request.timestamp;
+		} else if (endpoint === "fileInput") {
+			interaction.files++;
+		} else if (endpoint === "resourcesUsed") {
+			interaction.steps++;
+		}
+		// An out-of-order call never moves a completed interaction back
+		if (interaction.state !== "completed") {
+			interaction.state = NEXT_STATE[endpoint];
+		}
+		if (interaction.state === "completed" && !interaction.completedAt) {
+			interaction.completedAt = now;
+		}
+		interaction.updatedAt = now;
+
+		await this.storage.put(key, interaction);
+		return interaction;
+	}
+
+	/**
+	 * Flags interactions left open past the timeout and deletes finished ones past
+	 * retention. Returns how many were flagged.
+	 */
+	async sweep(now = Date.now()): Promise<number> {
+		let flagged = 0;
+		const expired: string[] = [];
+		for (const interaction of await this.list()) {
+			if (isFinished(interaction)) {
+				if (interaction.updatedAt + RETENTION_MS <= now) {
+					expired.push(interactionKey(interaction.sessionId, interaction.correlationId));
+				}
+				continue;
+			}
+			if (interaction.openedAt + this.timeoutMs <= now) {
+				interaction.staleAt = now;
+				interaction.flags.push({
+					type: "stale",
+					message: `Not completed within ${this.timeoutMs}ms`,
+					at: now,
+				});
+				await this.storage.put(
+					interactionKey(interaction.sessionId, interaction.correlationId),
+					interaction,
+				);
+				flagged++;
+				log.warn("Interaction was left open", {
+					sessionId: interaction.sessionId,
+					correlationId: interaction.correlationId,
+				});
+			}
+		}
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.storage.delete(expired.slice(i, i + 128));
+		}
+		return flagged;
+	}
+
+	// When the sweep next has something to do for any interaction
+	async nextDeadline(): Promise<number | undefined> {
+		const deadlines = (await this.list()).map((interaction) => this.deadline(interaction));
+		return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+	}
+
+	// When an interaction goes stale or, once finished, runs out of retention
+	deadline(interaction: Interaction): number {
+		return isFinished(interaction)
+			? interaction.updatedAt + RETENTION_MS
+			: interaction.openedAt + this.timeoutMs;
+	}
+}
+
+// Completed, or already flagged as stale, so the alarm has nothing left to check
+function isFinished(interaction: Interaction): boolean {
+	return interaction.state === "completed" || interaction.staleAt !== undefined;
+}
+
+function orderProblem(endpoint: CompliqEndpoint, interaction?: Interaction): string | undefined {
+	const state = interaction?.state;
+	if (ALLOWED_FROM[endpoint].includes(state)) {
+		return undefined;
+	}
+	const tool = TOOL_NAMES[endpoint];
+	if (state === undefined) {
+		return `${tool} was called before inputPrompt opened the interaction`;
+	}
+	if (state === "completed") {
+		return `${tool} was called after processingResult completed the interaction`;
+	}
+	if (endpoint === "taskInput") {
+		return "inputPrompt was called for an interaction that is already open";
+	}
+	return `${tool} was called after intermediate results were logged`;
+}
+
+// IDs are chosen by clients, so they are encoded to keep one session's prefix from matching another
+function interactionKey(sessionId: string, correlationId: string): string {
+	return `${KEY_PREFIX}${encodeURIComponent(sessionId)}/${encodeURIComponent(correlationId)}`;
+}
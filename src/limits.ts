@@ -0,0 +1,343 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { logger } from "./logger";
+
+const log = logger("limits");
+
+const BUCKET_PREFIX = "ratelimit:";
+const QUOTA_PREFIX = "quota:";
+// How often full buckets and past days' quotas are swept, at most
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A token bucket: bursts of up to `requests` calls, refilled evenly over `perSeconds`
+export interface RateLimit {
+	requests: number;
+	perSeconds: number;
+}
+
+export type LimitScope = "tenant" | "user" | "session";
+
+/**
+ * Rate limits and upload quotas, from RATE_LIMITS or a tenant's `rateLimits`. Each field
+ * replaces the default; null turns a limit off.
+ */
+export interface LimitsConfig {
+	// Every request to the tenant's /mcp, /sse/message and /uploads endpoints
+	tenant?: RateLimit | null;
+	// Tool calls per userId, and per MCP session
+	user?: RateLimit | null;
+	session?: RateLimit | null;
+	// Limits for particular userIds, replacing `user` for them
+	users?: Record<string, RateLimit | null>;
+	// Bytes of files received per UTC day, inline or through PUT /uploads/{id}
+	uploadBytesPerDay?: { tenant?: number | null; user?: number | null };
+}
+
+export const DEFAULT_LIMITS: LimitsConfig = {
+	tenant: { requests: 1200, perSeconds: 60 },
+	user: { requests: 120, perSeconds: 60 },
+	session: { requests: 120, perSeconds: 60 },
+	uploadBytesPerDay: { tenant: 10 * 1024 ** 3, user: 2 * 1024 ** 3 },
+};
+
+// Whose calls a check counts: the tenant as a whole, a user, an MCP session
+export interface LimitKeys {
+	tenant?: boolean;
+	user?: string;
+	session?: string;
+}
+
+export interface BucketStatus {
+	requests: number;
+	perSeconds: number;
+	remaining: number;
+	// When the bucket will be full again
+	fullAt: string;
+}
+
+export interface QuotaStatus {
+	limit: number;
+	used: number;
+	remaining: number;
+	resetsAt: string;
+}
+
+export class LimitsConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "LimitsConfigError";
+	}
+}
+
+// A rate limit or quota was reached; the call can be made again after `retryAfterMs`
+export class RateLimitError extends Error {
+	scope: LimitScope;
+	retryAfterMs: number;
+
+	constructor(scope: LimitScope, message: string, retryAfterMs: number) {
+		super(message);
+		this.name = "RateLimitError";
+		this.scope = scope;
+		this.retryAfterMs = retryAfterMs;
+	}
+
+	// Whole seconds, as the Retry-After header takes them
+	get retryAfter(): number {
+		return Math.max(1, Math.ceil(this.retryAfterMs / 1000));
+	}
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+interface Limited<T> {
+	scope: LimitScope;
+	key: string;
+	limit: T;
+}
+
+// Reads RATE_LIMITS on top of the defaults, then a tenant's own limits on top of that
+export function resolveLimits(json?: string, tenant?: LimitsConfig): LimitsConfig {
+	let configured: LimitsConfig = {};
+	if (json) {
+		try {
+			configured = JSON.parse(json);
+		} catch {
+			throw new LimitsConfigError("RATE_LIMITS is not valid JSON");
+		}
+	}
+	const config: LimitsConfig = {
+		...DEFAULT_LIMITS,
+		...configured,
+		...tenant,
+		uploadBytesPerDay: {
+			...DEFAULT_LIMITS.uploadBytesPerDay,
+			...configured.uploadBytesPerDay,
+			...tenant?.uploadBytesPerDay,
+		},
+	};
+	const limits = [
+		config.tenant,
+		config.user,
+		config.session,
+		...Object.values(config.users ?? {}),
+	];
+	for (const limit of limits) {
+		if (limit && !(limit.requests > 0 && limit.perSeconds > 0)) {
+			throw new LimitsConfigError(
+				`Invalid rate limit ${JSON.stringify(
+					limit,
+				)}: requests and perSeconds must be positive`,
+			);
+		}
+	}
+	return config;
+}
+
+/**
+ * Token-bucket rate limits and daily upload quotas, kept in Durable Object storage so they
+ * hold across restarts. Full buckets are indistinguishable from missing ones, so they and
+ * past days' quotas are deleted now and then.
+ */
+export class RateLimiter {
+	private storage: DurableObjectStorage;
+	private config: LimitsConfig;
+	private lastPrunedAt = 0;
+
+	constructor(storage: DurableObjectStorage, config: LimitsConfig = DEFAULT_LIMITS) {
+		this.storage = storage;
+		this.config = config;
+	}
+
+	// Takes one call from each bucket, or none if any of them is empty
+	async take(keys: LimitKeys, now = Date.now()) {
+		const buckets = this.bucketsFor(keys);
+		if (buckets.length === 0) {
+			return;
+		}
+		const stored = await this.storage.get<Bucket>(buckets.map((bucket) => bucket.key));
+		const updated: Record<string, Bucket> = {};
+		let exceeded: RateLimitError | undefined;
+		for (const { scope, key, limit } of buckets) {
+			const tokens = refill(stored.get(key), limit, now);
+			if (tokens >= 1) {
+				updated[key] = { tokens: tokens - 1, updatedAt: now };
+				continue;
+			}
+			// The bucket that frees up last decides when to retry
+			const retryAfterMs = Math.ceil((1 - tokens) / ratePerMs(limit));
+			if (!exceeded || retryAfterMs > exceeded.retryAfterMs) {
+				exceeded = new RateLimitError(
+					scope,
+					`Rate limit of ${limit.requests} requests per ${limit.perSeconds}s exceeded for this ${scope}`,
+					retryAfterMs,
+				);
+			}
+		}
+		if (exceeded) {
+			log.warn(exceeded.message, { scope: exceeded.scope, retryAfter: exceeded.retryAfter });
+			throw exceeded;
+		}
+		await this.storage.put(updated);
+		await this.prune(now);
+	}
+
+	// Counts file bytes against today's quotas, unless that would take one over
+	async chargeBytes(user: string | undefined, bytes: number, now = Date.now()) {
+		const quotas = this.quotasFor(user, now);
+		if (quotas.length === 0 || bytes <= 0) {
+			return;
+		}
+		const stored = await this.storage.get<number>(quotas.map((quota) => quota.key));
+		for (const { scope, key, limit } of quotas) {
+			const used = stored.get(key) ?? 0;
+			if (used + bytes > limit) {
+				const error = new RateLimitError(
+					scope,
+					`Daily upload quota of ${limit} bytes for this ${scope} would be exceeded (${used} used, ${bytes} more)`,
+					nextDay(now) - now,
+				);
+				log.warn(error.message, { scope, used, bytes });
+				throw error;
+			}
+		}
+		await this.storage.put(
+			Object.fromEntries(quotas.map(({ key }) => [key, (stored.get(key) ?? 0) + bytes])),
+		);
+	}
+
+	// Gives back bytes charged today for a file that was not kept after all
+	async refundBytes(user: string | undefined, bytes: number, now = Date.now()) {
+		const quotas = this.quotasFor(user, now);
+		if (quotas.length === 0 || bytes <= 0) {
+			return;
+		}
+		const stored = await this.storage.get<number>(quotas.map((quota) => quota.key));
+		await this.storage.put(
+			Object.fromEntries(
+				quotas.map(({ key }) => [key, Math.max(0, (stored.get(key) ?? 0) - bytes)]),
+			),
+		);
+	}
+
+	// What is left of each limit that applies to the keys
+	async status(keys: LimitKeys, now = Date.now()) {
+		const buckets = this.bucketsFor(keys);
+		const stored = await this.storage.get<Bucket>(buckets.map((bucket) => bucket.key));
+		const requests: Partial<Record<LimitScope, BucketStatus>> = {};
+		for (const { scope, key, limit } of buckets) {
+			const tokens = refill(stored.get(key), limit, now);
+			requests[scope] = {
+				...limit,
+				remaining: Math.floor(tokens),
+				fullAt: new Date(now + (limit.requests - tokens) / ratePerMs(limit)).toISOString(),
+			};
+		}
+
+		const quotas = this.quotasFor(keys.user, now);
+		const used = await this.storage.get<number>(quotas.map((quota) => quota.key));
+		const uploadBytes: Partial<Record<LimitScope, QuotaStatus>> = {};
+		for (const { scope, key, limit } of quotas) {
+			const today = used.get(key) ?? 0;
+			uploadBytes[scope] = {
+				limit,
+				used: today,
+				remaining: Math.max(0, limit - today),
+				resetsAt: new Date(nextDay(now)).toISOString(),
+			};
+		}
+		return { requests, uploadBytes };
+	}
+
+	private bucketsFor(keys: LimitKeys): Limited<RateLimit>[] {
+		const buckets: Limited<RateLimit>[] = [];
+		if (keys.tenant && this.config.tenant) {
+			buckets.push({
+				scope: "tenant",
+				key: `${BUCKET_PREFIX}tenant`,
+				limit: this.config.tenant,
+			});
+		}
+		const user = keys.user === undefined ? undefined : this.userLimit(keys.user);
+		if (user) {
+			buckets.push({ scope: "user", key: `${BUCKET_PREFIX}user:${keys.user}`, limit: user });
+		}
+		if (keys.session !== undefined && this.config.session) {
+			buckets.push({
+				scope: "session",
+				key: `${BUCKET_PREFIX}session:${keys.session}`,
+				limit: this.config.session,
+			});
+		}
+		return buckets;
+	}
+
+	private userLimit(user: string): RateLimit | null | undefined {
+		const users = this.config.users ?? {};
+		return Object.prototype.hasOwnProperty.call(users, user) ? users[user] : this.config.user;
+	}
+
+	private quotasFor(user: string | undefined, now: number): Limited<number>[] {
+		const day = new Date(now).toISOString().slice(0, 10);
+		const { tenant, user: perUser } = this.config.uploadBytesPerDay ?? {};
+		const quotas: Limited<number>[] = [];
+		if (tenant) {
+			quotas.push({ scope: "tenant", key: `${QUOTA_PREFIX}${day}:tenant`, limit: tenant });
+		}
+		if (user !== undefined && perUser) {
+			quotas.push({
+				scope: "user",
+				key: `${QUOTA_PREFIX}${day}:user:${user}`,
+				limit: perUser,
+			});
+		}
+		return quotas;
+	}
+
+	private async prune(now: number) {
+		if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+			return;
+		}
+		this.lastPrunedAt = now;
+		const stale: string[] = [];
+		const buckets = await this.storage.list<Bucket>({ prefix: BUCKET_PREFIX });
+		for (const [key, bucket] of buckets) {
+			const [scope, ...id] = key.slice(BUCKET_PREFIX.length).split(":");
+			const limit =
+				scope === "user"
+					? this.userLimit(id.join(":"))
+					: this.config[scope as "tenant" | "session"];
+			if (!limit || refill(bucket, limit, now) >= limit.requests) {
+				stale.push(key);
+			}
+		}
+		const today = `${QUOTA_PREFIX}${new Date(now).toISOString().slice(0, 10)}:`;
+		const quotas = await this.storage.list({ prefix: QUOTA_PREFIX });
+		stale.push(...[...quotas.keys()].filter((key) => !key.startsWith(today)));
+		for (let i = 0; i < stale.length; i += 128) {
+			await this.storage.delete(stale.slice(i, i + 128));
+		}
+		if (stale.length > 0) {
+			log.info("Pruned idle buckets and old quotas", { count: stale.length });
+		}
+	}
+}
+
+function ratePerMs(limit: RateLimit): number {
+	return limit.requests / (limit.perSeconds * 1000);
+}
+
+// Tokens in a bucket now; a bucket that was never used is full
+function refill(bucket: Bucket | undefined, limit: RateLimit, now: number): number {
+	if (!bucket) {
+		return limit.requests;
+	}
+	return Math.min(limit.requests, bucket.tokens + (now - bucket.updatedAt) * ratePerMs(limit));
+}
+
+// Start of the next UTC day, when daily quotas reset
+function nextDay(now: number): number {
+	return (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+}
@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Carries the trace ID from the worker to the Durable Object and on to COMPLiQ
+export const TRACE_HEADER = "X-Request-Id";
+
+// Strings longer than this are cut short in log lines
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 5;
+
+// Values under these keys are never written out: credentials, and what users sent
+const SECRET_KEYS =
+	/^(authorization|cookie|api[-_]?key|.*token|.*secret|password|content|fileBase64)$/i;
+
+// What every log line written while handling one request carries
+export interface TraceContext {
+	traceId: string;
+	tenant?: string;
+	sessionId?: string;
+	tool?: string;
+}
+
+const traces = new AsyncLocalStorage<TraceContext>();
+let minLevel = LEVELS.info;
+
+// Sets the lowest level that is written, from LOG_LEVEL; unknown levels are ignored
+export function setLogLevel(level?: string) {
+	const value = LEVELS[level?.toLowerCase() as LogLevel];
+	if (value !== undefined) {
+		minLevel = value;
+	}
+}
+
+// Runs `fn` with `context` added to every line it logs, including from awaited calls
+export function withTrace<T>(context: TraceContext, fn: () => T): T {
+	return traces.run({ ...traces.getStore(), ...context }, fn);
+}
+
+export function currentTrace(): TraceContext | undefined {
+	return traces.getStore();
+}
+
+/**
+ * The trace ID for an incoming request: X-Request-Id if the caller set a sensible one, the
+ * trace ID of a W3C traceparent header, or a new one.
+ */
+export function traceIdFrom(request: Request): string {
+	const requestId = request.headers.get(TRACE_HEADER);
+	if (requestId && /^[\w.:-]{1,128}$/.test(requestId)) {
+		return requestId;
+	}
+	const traceparent = request.headers
+		.get("traceparent")
+		?.match(/^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/);
+	if (traceparent && !/^0+$/.test(traceparent[1])) {
+		return traceparent[1];
+	}
+	return crypto.randomUUID();
+}
+
+/**
+ * Writes one JSON object per line, with the time, level, component and current trace.
+ * Fields are copied with secrets and user content replaced and long strings shortened,
+ * so whole requests and COMPLiQ responses can be passed without leaking them.
+ */
+export class Logger {
+	private component: string;
+
+	constructor(component: string) {
+		this.component = component;
+	}
+
+	debug(message: string, fields?: Record<string, unknown>) {
+		this.write("debug", message, fields);
+	}
+
+	info(message: string, fields?: Record<string, unknown>) {
+		this.write("info", message, fields);
+	}
+
+	warn(message: string, fields?: Record<string, unknown>) {
+		this.write("warn", message, fields);
+	}
+
+	error(message: string, fields?: Record<string, unknown>) {
+		this.write("error", message, fields);
+	}
+
+	private write(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+		if (LEVELS[level] < minLevel) {
+			return;
+		}
+		const line = JSON.stringify({
+			time: new Date().toISOString(),
+			level,
+			component: this.component,
+			msg: message,
+			...currentTrace(),
+			...(scrub(fields ?? {}, 0) as Record<string, unknown>),
+		});
+		if (level === "error") {
+			console.error(line);
+		} else if (level === "warn") {
+			console.warn(line);
+		} else {
+			console.log(line);
+		}
+	}
+}
+
+export function logger(component: string): Logger {
+	return new Logger(component);
+}
+
+// A copy of `value` that is safe to log
+export function scrub(value: unknown, depth = 0): unknown {
+	if (typeof value === "string") {
+		return value.length > MAX_STRING_LENGTH
+			? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+			: value;
+	}
+	if (value === null || typeof value !== "object") {
+		return typeof value === "bigint" ? value.toString() : value;
+	}
+	if (value instanceof Error) {
+		const error = value as Error & Record<string, unknown>;
+		return scrub(
+			{
+				...error,
+				name: error.name,
+				message: error.message,
+				stack: error.stack?.split("\n").slice(0, 5).join("\n"),
+			},
+			depth,
+		);
+	}
+	if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+		return `[${value.byteLength} bytes]`;
+	}
+	if (value instanceof Blob) {
+		return `[${value.size} bytes]`;
+	}
+	if (depth >= MAX_DEPTH) {
+		return Array.isArray(value) ? `[${value.length} items]` : "[object]";
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => scrub(item, depth + 1));
+	}
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [
+			key,
+			SECRET_KEYS.test(key) ? redacted(item) : scrub(item, depth + 1),
+		]),
+	);
+}
+
+function redacted(value: unknown): string | undefined {
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+	return typeof value === "string" ? `[redacted ${value.length} chars]` : "[redacted]";
+}
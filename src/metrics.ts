@@ -0,0 +1,192 @@
+// Upper bounds of the latency histogram buckets, in seconds
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Histogram {
+	// Observations at or below each bound of LATENCY_BUCKETS, not yet cumulative
+	buckets: number[];
+	count: number;
+	sum: number;
+}
+
+/**
+ * What one tenant's Durable Object has counted since it started. Keys join the label
+ * values with "|"; see `renderPrometheus` for the metric names.
+ */
+export interface MetricsSnapshot {
+	startedAt: string;
+	// tool|outcome, where outcome is "ok", "error" or "rate_limited"
+	toolCalls: Record<string, number>;
+	// tool
+	toolLatency: Record<string, Histogram>;
+	// endpoint|status, where status is an HTTP status code, "timeout" or "network"
+	upstreamResponses: Record<string, number>;
+	// endpoint
+	upstreamLatency: Record<string, Histogram>;
+	// source, "upload" or "inline"
+	uploadedBytes: Record<string, number>;
+	// sink|outcome, where outcome is "delivered", "queued" or "failed"
+	sinkWrites: Record<string, number>;
+}
+
+/**
+ * In-memory counters for one tenant. They start again from zero when the Durable Object
+ * is evicted, which Prometheus treats as a counter reset.
+ */
+export class Metrics {
+	private data: MetricsSnapshot = {
+		startedAt: new Date().toISOString(),
+		toolCalls: {},
+		toolLatency: {},
+		upstreamResponses: {},
+		upstreamLatency: {},
+		uploadedBytes: {},
+		sinkWrites: {},
+	};
+
+	toolCall(tool: string, outcome: "ok" | "error" | "rate_limited", durationMs: number) {
+		increment(this.data.toolCalls, `${tool}|${outcome}`);
+		observe(this.data.toolLatency, tool, durationMs / 1000);
+	}
+
+	upstreamResponse(endpoint: string, status: number | string, durationMs: number) {
+		increment(this.data.upstreamResponses, `${endpoint}|${status}`);
+		observe(this.data.upstreamLatency, endpoint, durationMs / 1000);
+	}
+
+	uploaded(source: "upload" | "inline", bytes: number) {
+		increment(this.data.uploadedBytes, source, bytes);
+	}
+
+	sinkWrite(sink: string, outcome: "delivered" | "queued" | "failed") {
+		increment(this.data.sinkWrites, `${sink}|${outcome}`);
+	}
+
+	snapshot(): MetricsSnapshot {
+		return this.data;
+	}
+}
+
+function increment(counters: Record<string, number>, key: string, by = 1) {
+	counters[key] = (counters[key] ?? 0) + by;
+}
+
+function observe(histograms: Record<string, Histogram>, key: string, seconds: number) {
+	histograms[key] ??= { buckets: LATENCY_BUCKETS.map(() => 0), count: 0, sum: 0 };
+	const histogram = histograms[key];
+	const bucket = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+	if (bucket >= 0) {
+		histogram.buckets[bucket]++;
+	}
+	histogram.count++;
+	histogram.sum += seconds;
+}
+
+/**
+ * Renders the snapshots of several tenants in the Prometheus text format, each series
+ * labelled with its tenant.
+ */
+export function renderPrometheus(snapshots: Record<string, MetricsSnapshot>): string {
+	const lines: string[] = [];
+	const family = (name: string, type: string, help: string) => {
+		lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+	};
+	const entries = Object.entries(snapshots);
+
+	family("compliq_mcp_tool_calls_total", "counter", "MCP tool calls, by outcome");
+	for (const [tenant, snapshot] of entries) {
+		for (const [key, value] of Object.entries(snapshot.toolCalls)) {
+			const [tool, outcome] = key.split("|");
+			lines.push(series("compliq_mcp_tool_calls_total", { tenant, tool, outcome }, value));
+		}
+	}
+
+	family("compliq_mcp_tool_duration_seconds", "histogram", "How long MCP tool calls took");
+	for (const [tenant, snapshot] of entries) {
+		for (const [tool, histogram] of Object.entries(snapshot.toolLatency)) {
+			lines.push(
+				...histogramSeries(
+					"compliq_mcp_tool_duration_seconds",
+					{ tenant, tool },
+					histogram,
+				),
+			);
+		}
+	}
+
+	family(
+		"compliq_mcp_upstream_responses_total",
+		"counter",
+		"Responses from COMPLiQ, by HTTP status, or timeout and network for calls that got none",
+	);
+	for (const [tenant, snapshot] of entries) {
+		for (const [key, value] of Object.entries(snapshot.upstreamResponses)) {
+			const [endpoint, status] = key.split("|");
+			lines.push(
+				series("compliq_mcp_upstream_responses_total", { tenant, endpoint, status }, value),
+			);
+		}
+	}
+
+	family("compliq_mcp_upstream_duration_seconds", "histogram", "How long calls to COMPLiQ took");
+	for (const [tenant, snapshot] of entries) {
+		for (const [endpoint, histogram] of Object.entries(snapshot.upstreamLatency)) {
+			lines.push(
+				...histogramSeries(
+					"compliq_mcp_upstream_duration_seconds",
+					{ tenant, endpoint },
+					histogram,
+				),
+			);
+		}
+	}
+
+	family(
+		"compliq_mcp_uploaded_bytes_total",
+		"counter",
+		"File bytes received, through /uploads or inline as base64",
+	);
+	for (const [tenant, snapshot] of entries) {
+		for (const [source, value] of Object.entries(snapshot.uploadedBytes)) {
+			lines.push(series("compliq_mcp_uploaded_bytes_total", { tenant, source }, value));
+		}
+	}
+
+	family(
+		"compliq_mcp_sink_writes_total",
+		"counter",
+		"Submissions written to audit sinks, by outcome",
+	);
+	for (const [tenant, snapshot] of entries) {
+		for (const [key, value] of Object.entries(snapshot.sinkWrites)) {
+			const [sink, outcome] = key.split("|");
+			lines.push(series("compliq_mcp_sink_writes_total", { tenant, sink, outcome }, value));
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+function histogramSeries(
+	name: string,
+	labels: Record<string, string>,
+	histogram: Histogram,
+): string[] {
+	let cumulative = 0;
+	const lines = LATENCY_BUCKETS.map((bound, i) => {
+		cumulative += histogram.buckets[i] ?? 0;
+		return series(`${name}_bucket`, { ...labels, le: String(bound) }, cumulative);
+	});
+	lines.push(series(`${name}_bucket`, { ...labels, le: "+Inf" }, histogram.count));
+	lines.push(series(`${name}_sum`, labels, histogram.sum));
+	lines.push(series(`${name}_count`, labels, histogram.count));
+	return lines;
+}
+
+function series(name: string, labels: Record<string, string>, value: number): string {
+	const pairs = Object.entries(labels).map(([label, text]) => `${label}="${escapeLabel(text)}"`);
+	return `${name}{${pairs.join(",")}} ${value}`;
+}
+
+function escapeLabel(text: string): string {
+	return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
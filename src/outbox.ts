@@ -0,0 +1,269 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { appendStream, deleteBytes, streamBytes } from "./blobs";
+import { type CompliqFile, type CompliqRequest, CompliqError, fileStream } from "./compliq";
+import { logger } from "./logger";
+import { describeError } from "./results";
+import type { CompliqEndpoint } from "./targets";
+
+const log = logger("outbox");
+
+const QUEUE_PREFIX = "outbox:";
+const DEAD_LETTER_PREFIX = "dlq:";
+const FILE_PREFIX = "outbox-file:";
+const SEQUENCE_KEY = "outbox-seq";
+
+export interface OutboxOptions {
+	maxAttempts?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<OutboxOptions> = {
+	maxAttempts: 8,
+	baseDelayMs: 5_000,
+	maxDelayMs: 15 * 60 * 1000,
+};
+
+// A submission waiting to be (re)sent. File bytes live in separate chunked storage.
+export interface QueuedSubmission {
+	id: string;
+	seq: number;
+	endpoint: CompliqEndpoint;
+	request: Omit<CompliqRequest, "file">;
+	file?: { name: string; contentType: string; chunks: number; size: number };
+	// Submissions sharing a key are delivered strictly in order
+	orderKey: string;
+	attempts: number;
+	createdAt: number;
+	nextAttemptAt: number;
+	lastError?: ReturnType<typeof describeError>;
+}
+
+export interface DeadLetter extends QueuedSubmission {
+	deadAt: number;
+}
+
+export type Sender = (endpoint: CompliqEndpoint, request: CompliqRequest) => Promise<unknown>;
+
+export function orderKeyFor(request: { sessionId: string; correlationId: string }): string {
+	return `${request.sessionId}/${request.correlationId}`;
+}
+
+/**
+ * Durable queue of COMPLiQ submissions that could not be delivered right away, kept in
+ * Durable Object storage. Failed deliveries are retried with exponential backoff; ones
+ * that keep failing, or fail in a way retrying cannot fix, move to a dead-letter queue.
+ */
+export class Outbox {
+	private storage: DurableObjectStorage;
+	private options: Required<OutboxOptions>;
+
+	constructor(storage: DurableObjectStorage, options: OutboxOptions = {}) {
+		this.storage = storage;
+		this.options = {
+			maxAttempts: options.maxAttempts ?? DEFAULT_OPTIONS.maxAttempts,
+			baseDelayMs: options.baseDelayMs ?? DEFAULT_OPTIONS.baseDelayMs,
+			maxDelayMs: options.maxDelayMs ?? DEFAULT_OPTIONS.maxDelayMs,
+		};
+	}
+
+	async pending(): Promise<QueuedSubmission[]> {
+		const entries = await this.storage.list<QueuedSubmission>({ prefix: QUEUE_PREFIX });
+		return [...entries.values()];
+	}
+
+	async deadLetters(): Promise<DeadLetter[]> {
+		const entries = await this.storage.list<DeadLetter>({ prefix: DEAD_LETTER_PREFIX });
+		return [...entries.values()];
+	}
+
+	// Whether earlier submissions with the key are queued or dead-lettered, so a new one must wait
+	async hasPending(orderKey: string): Promise<boolean> {
+		return (
+			(await this.pending()).some((item) => item.orderKey === orderKey) ||
+			(await this.blockedKeys()).has(orderKey)
+		);
+	}
+
+	/**
+	 * When the next delivery attempt is due, either for one order key or for the whole queue.
+	 * Only the oldest submission of each key counts, since the rest wait behind it. Keys held
+	 * back by a dead letter have none until it is replayed or purged.
+	 */
+	async nextAttemptAt(orderKey?: string): Promise<number | undefined> {
+		const blocked = await this.blockedKeys();
+		const heads = new Map<string, number>();
+		for (const item of await this.pending()) {
+			if (!heads.has(item.orderKey) && !blocked.has(item.orderKey)) {
+				heads.set(item.orderKey, item.nextAttemptAt);
+			}
+		}
+		if (orderKey) {
+			return heads.get(orderKey);
+		}
+		return heads.size > 0 ? Math.min(...heads.values()) : undefined;
+	}
+
+	/**
+	 * Queues a submission. With `error` it counts as one failed attempt and waits for the
+	 * first backoff; without, it is due at once but still goes out behind earlier items.
+	 */
+	async enqueue(
+		endpoint: CompliqEndpoint,
+		request: CompliqRequest,
+		error?: unknown,
+	): Promise<QueuedSubmission> {
+		const now = Date.now();
+		const seq = ((await this.storage.get<number>(SEQUENCE_KEY)) ?? 0) + 1;
+		await this.storage.put(SEQUENCE_KEY, seq);
+
+		const id = crypto.randomUUID();
+		const { file, ...rest } = request as CompliqRequest & { file?: CompliqFile };
+		const item: QueuedSubmission = {
+			id,
+			seq,
+			endpoint,
+			request: rest,
+			orderKey: orderKeyFor(request),
+			attempts: error ? 1 : 0,
+			createdAt: now,
+			nextAttemptAt: error ? now + this.backoff(1) : now,
+			lastError: error ? describeError(error) : undefined,
+		};
+
+		if (file) {
+			const stored = { chunks: 0, size: 0 };
+			await appendStream(this.storage, `${FILE_PREFIX}${id}`, stored, fileStream(file.data));
+			item.file = { name: file.name, contentType: file.contentType, ...stored };
+		}
+
+		await this.storage.put(queueKey(item), item);
+		log.info("Queued submission", { endpoint, id, orderKey: item.orderKey });
+		return item;
+	}
+
+	/**
+	 * Sends every submission that is due, oldest first. A submission that is not due, fails
+	 * again or is dead-lettered holds back the later ones with the same order key.
+	 */
+	async deliverDue(send: Sender, now = Date.now()) {
+		const summary = { delivered: 0, retried: 0, deadLettered: 0 };
+		const blocked = await this.blockedKeys();
+
+		for (const item of await this.pending()) {
+			if (blocked.has(item.orderKey)) {
+				continue;
+			}
+			if (item.nextAttemptAt > now) {
+				blocked.add(item.orderKey);
+				continue;
+			}
+
+			try {
+				await send(item.endpoint, await this.hydrate(item));
+				await this.remove(item);
+				summary.delivered++;
+				log.info("Delivered submission", { endpoint: item.endpoint, id: item.id });
+			} catch (error) {
+				const attempts = item.attempts + 1;
+				const retryable = error instanceof CompliqError && error.retryable;
+				if (retryable && attempts < this.options.maxAttempts) {
+					const retry = {
+						...item,
+						attempts,
+						nextAttemptAt: now + this.backoff(attempts),
+						lastError: describeError(error),
+					};
+					await this.storage.put(queueKey(item), retry);
+					blocked.add(item.orderKey);
+					summary.retried++;
+					log.warn("Delivery failed, retrying later", { id: item.id, attempts, error });
+				} else {
+					await this.deadLetter({ ...item, attempts, lastError: describeError(error) });
+					blocked.add(item.orderKey);
+					summary.deadLettered++;
+				}
+			}
+		}
+		return summary;
+	}
+
+	/**
+	 * Moves dead letters back onto the queue, due immediately. They keep their place, ahead
+	 * of later submissions with the same order key. Without ids, replays all.
+	 */
+	async replay(ids?: string[]): Promise<number> {
+		const letters = (await this.deadLetters()).filter((item) => !ids || ids.includes(item.id));
+		for (const { deadAt, ...item } of letters) {
+			const queued: QueuedSubmission = {
+				...item,
+				attempts: 0,
+				nextAttemptAt: Date.now(),
+			};
+			await this.storage.put(queueKey(queued), queued);
+			await this.storage.delete(`${DEAD_LETTER_PREFIX}${item.id}`);
+		}
+		log.info("Replaying dead letters", { count: letters.length });
+		return letters.length;
+	}
+
+	// Drops dead letters for good, letting the submissions behind them go. Without ids, purges all.
+	async purge(ids?: string[]): Promise<number> {
+		const letters = (await this.deadLetters()).filter((item) => !ids || ids.includes(item.id));
+		for (const item of letters) {
+			await this.storage.delete(`${DEAD_LETTER_PREFIX}${item.id}`);
+			if (item.file) {
+				await deleteBytes(this.storage, `${FILE_PREFIX}${item.id}`, item.file.chunks);
+			}
+		}
+		log.info("Purged dead letters", { count: letters.length });
+		return letters.length;
+	}
+
+	// Order keys with a dead letter, whose later submissions wait for it
+	private async blockedKeys(): Promise<Set<string>> {
+		return new Set((await this.deadLetters()).map((item) => item.orderKey));
+	}
+
+	private backoff(attempts: number): number {
+		const delay = this.options.baseDelayMs * 2 ** (attempts - 1);
+		// Jitter keeps many tenants from retrying against COMPLiQ in lockstep
+		return Math.min(delay, this.options.maxDelayMs) * (0.8 + Math.random() * 0.4);
+	}
+
+	private async hydrate(item: QueuedSubmission): Promise<CompliqRequest> {
+		if (!item.file) {
+			return item.request as CompliqRequest;
+		}
+		const key = `${FILE_PREFIX}${item.id}`;
+		const { chunks, size } = item.file;
+		const data = { key, size, stream: () => streamBytes(this.storage, key, chunks) };
+		return {
+			...item.request,
+			file: { data, name: item.file.name, contentType: item.file.contentType },
+		} as CompliqRequest;
+	}
+
+	private async remove(item: QueuedSubmission) {
+		await this.storage.delete(queueKey(item));
+		if (item.file) {
+			await deleteBytes(this.storage, `${FILE_PREFIX}${item.id}`, item.file.chunks);
+		}
+	}
+
+	private async deadLetter(item: QueuedSubmission) {
+		const letter: DeadLetter = { ...item, deadAt: Date.now() };
+		await this.storage.put(`${DEAD_LETTER_PREFIX}${item.id}`, letter);
+		await this.storage.delete(queueKey(item));
+		log.error("Submission moved to the dead-letter queue", {
+			id: item.id,
+			endpoint: item.endpoint,
+			error: item.lastError,
+		});
+	}
+}
+
+// Zero-padded so storage lists the queue in submission order
+function queueKey(item: QueuedSubmission): string {
+	return `${QUEUE_PREFIX}${String(item.seq).padStart(12, "0")}`;
+}
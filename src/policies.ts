@@ -0,0 +1,172 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { logger } from "./logger";
+import { ToolInputError } from "./results";
+
+const log = logger("policies");
+
+const POLICY_KEY = "policy-pack";
+
+// Which side of an interaction content is: the user's prompt or the system's answer
+export type PolicyTarget = "prompt" | "answer";
+
+export type PolicyDecision = "allow" | "warn" | "block";
+
+export interface TopicRule {
+	name: string;
+	// Regular expression source, matched ignoring case unless `flags` says otherwise
+	pattern: string;
+	flags?: string;
+	// Content the rule checks (default both)
+	appliesTo?: PolicyTarget[];
+	decision?: "warn" | "block";
+}
+
+/**
+ * A tenant's content policy. Banned terms and over-long content block; topics warn unless
+ * they say otherwise; answers missing a required disclaimer warn.
+ */
+export interface PolicyPack {
+	// Words or phrases that may not appear, matched as whole words ignoring case
+	bannedTerms?: string[];
+	topics?: TopicRule[];
+	maxLength?: Partial<Record<PolicyTarget, number>>;
+	// Text every answer must contain, ignoring case
+	requiredDisclaimers?: string[];
+}
+
+export interface PolicyReason {
+	type: "banned_term" | "topic" | "max_length" | "missing_disclaimer";
+	decision: "warn" | "block";
+	message: string;
+	rule?: string;
+}
+
+export interface PolicyResult {
+	decision: PolicyDecision;
+	reasons: PolicyReason[];
+}
+
+/**
+ * Keeps the tenant's policy pack in Durable Object storage. It is read on every prompt and
+ * answer, so the last one read is kept in memory.
+ */
+export class PolicyStore {
+	private storage: DurableObjectStorage;
+	private cached?: { pack?: PolicyPack };
+
+	constructor(storage: DurableObjectStorage) {
+		this.storage = storage;
+	}
+
+	async get(): Promise<PolicyPack | undefined> {
+		this.cached ??= { pack: await this.storage.get<PolicyPack>(POLICY_KEY) };
+		return this.cached.pack;
+	}
+
+	async set(pack: PolicyPack) {
+		validatePolicyPack(pack);
+		await this.storage.put(POLICY_KEY, pack);
+		this.cached = { pack };
+		log.info("Policy pack updated");
+	}
+
+	async clear() {
+		await this.storage.delete(POLICY_KEY);
+		this.cached = { pack: undefined };
+		log.info("Policy pack cleared");
+	}
+}
+
+// Throws ToolInputError if a topic pattern does not compile, so a bad pack is never stored
+export function validatePolicyPack(pack: PolicyPack) {
+	for (const topic of pack.topics ?? []) {
+		try {
+			topicRegex(topic);
+		} catch (error) {
+			throw new ToolInputError(
+				`Invalid pattern for topic ${topic.name}: ${(error as Error).message}`,
+			);
+		}
+	}
+}
+
+// Checks content against a policy pack; the strictest reason decides
+export function evaluatePolicy(
+	pack: PolicyPack,
+	target: PolicyTarget,
+	content: string,
+): PolicyResult {
+	const reasons: PolicyReason[] = [];
+
+	const limit = pack.maxLength?.[target];
+	if (limit !== undefined && content.length > limit) {
+		reasons.push({
+			type: "max_length",
+			decision: "block",
+			message: `The ${target} is ${content.length} characters long, over the limit of ${limit}`,
+		});
+	}
+
+	for (const term of pack.bannedTerms ?? []) {
+		if (termRegex(term).test(content)) {
+			reasons.push({
+				type: "banned_term",
+				decision: "block",
+				message: `Contains the banned term "${term}"`,
+				rule: term,
+			});
+		}
+	}
+
+	for (const topic of pack.topics ?? []) {
+		if (
+			(topic.appliesTo ?? ["prompt", "answer"]).includes(target) &&
+			topicRegex(topic).test(content)
+		) {
+			reasons.push({
+				type: "topic",
+				decision: topic.decision ?? "warn",
+				message: `Touches on the topic ${topic.name}`,
+				rule: topic.name,
+			});
+		}
+	}
+
+	if (target === "answer") {
+		const lower = content.toLowerCase();
+		for (const disclaimer of pack.requiredDisclaimers ?? []) {
+			if (!lower.includes(disclaimer.toLowerCase())) {
+				reasons.push({
+					type: "missing_disclaimer",
+					decision: "warn",
+					message: `Is missing the required disclaimer "${disclaimer}"`,
+					rule: disclaimer,
+				});
+			}
+		}
+	}
+
+	const decision = reasons.some((reason) => reason.decision === "block")
+		? "block"
+		: reasons.length > 0
+			? "warn"
+			: "allow";
+	return { decision, reasons };
+}
+
+// The marker a blocked submission carries to COMPLiQ
+export function violationMarker(result: PolicyResult): string {
+	return result.reasons
+		.filter((reason) => reason.decision === "block")
+		.map((reason) => reason.message)
+		.join("; ");
+}
+
+function topicRegex(topic: TopicRule): RegExp {
+	return new RegExp(topic.pattern, topic.flags ?? "i");
+}
+
+function termRegex(term: string): RegExp {
+	const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, "iu");
+}
@@ -0,0 +1,162 @@
+import { ATTACHMENT_TYPES } from "./attachments";
+
+// Arguments shared by every workflow prompt; MCP prompt arguments are always strings
+export interface InteractionArgs {
+	sessionId?: string;
+	correlationId?: string;
+	userId?: string;
+}
+
+export interface ChatTurnArgs extends InteractionArgs {
+	prompt: string;
+	answer: string;
+}
+
+export interface RagAnswerArgs extends ChatTurnArgs {
+	// One source per line, or comma-separated
+	sources: string;
+}
+
+export interface FileInteractionArgs extends InteractionArgs {
+	prompt: string;
+	fileName: string;
+	fileContentType?: string;
+	answer?: string;
+}
+
+/**
+ * Instructions for logging one user prompt and model answer, with the tool calls to make.
+ * IDs the client did not pass are generated, so the sample calls can be used as they are.
+ */
+export function chatTurnPrompt(args: ChatTurnArgs) {
+	const ids = interactionIds(args);
+	return instructions(
+		"Log this chat turn to COMPLiQ",
+		[
+			step("Log the user's prompt first. This opens the interaction.", "inputPrompt", {
+				...ids,
+				content: args.prompt,
+			}),
+			step(
+				"Log the model's answer last. This completes the interaction; processingTime is worked out from the prompt's timestamp.",
+				"processingResult",
+				{ ...ids, content: args.answer },
+			),
+		],
+		ids,
+	);
+}
+
+const RETRIEVED_TEXT = "Set content to the text that was retrieved from it.";
+
+// Like a chat turn, with one intermediateResults call per retrieved source between prompt and answer
+export function ragAnswerPrompt(args: RagAnswerArgs) {
+	const ids = interactionIds(args);
+	const sources = args.sources
+		.split(/[\n,]/)
+		.map((source) => source.trim())
+		.filter(Boolean);
+	return instructions(
+		"Log this retrieval-augmented answer and its sources to COMPLiQ",
+		[
+			step("Log the user's prompt first. This opens the interaction.", "inputPrompt", {
+				...ids,
+				content: args.prompt,
+			}),
+			...sources.map((source, index) =>
+				step(
+					`Log source ${index + 1} of ${
+						sources.length
+					}, in the order it was used. ${RETRIEVED_TEXT}`,
+					"intermediateResults",
+					{ ...ids, resourceName: source, content: `<text retrieved from ${source}>` },
+				),
+			),
+			step(
+				"Log the model's answer last. This completes the interaction.",
+				"processingResult",
+				{
+					...ids,
+					content: args.answer,
+				},
+			),
+		],
+		ids,
+	);
+}
+
+// A prompt with a file attached, and optionally the answer to it
+export function fileInteractionPrompt(args: FileInteractionArgs) {
+	const ids = interactionIds(args);
+	const type = args.fileContentType ?? typeForFileName(args.fileName);
+	const steps = [
+		step("Log the user's prompt first. This opens the interaction.", "inputPrompt", {
+			...ids,
+			content: args.prompt,
+		}),
+		step(
+			"Attach the file. Small files can be sent inline as base64. Files over a few megabytes should be uploaded first with PUT /uploads/{id} and passed as uploadId instead of fileBase64.",
+			"addFile",
+			{
+				...ids,
+				fileBase64: `<base64-encoded bytes of ${args.fileName}>`,
+				fileName: args.fileName,
+				fileContentType: type ?? "<png, jpeg, mp3, mp4, docx, pdf, csv, xml or ogg>",
+			},
+		),
+	];
+	if (args.answer !== undefined) {
+		steps.push(
+			step(
+				"Log the model's answer last. This completes the interaction.",
+				"processingResult",
+				{
+					...ids,
+					content: args.answer,
+				},
+			),
+		);
+	}
+	return instructions("Attach this file to a COMPLiQ interaction", steps, ids);
+}
+
+// The short type name for a file name's extension, if it is one COMPLiQ accepts
+function typeForFileName(fileName: string): string | undefined {
+	const extension = /\.([^.]+)$/.exec(fileName)?.[1]?.toLowerCase();
+	return Object.entries(ATTACHMENT_TYPES).find(([, type]) =>
+		type.extensions.includes(extension ?? ""),
+	)?.[0];
+}
+
+function interactionIds(args: InteractionArgs) {
+	return {
+		sessionId: args.sessionId || `session-${crypto.randomUUID()}`,
+		correlationId: args.correlationId || crypto.randomUUID(),
+		...(args.userId && { userId: args.userId }),
+	};
+}
+
+function step(text: string, tool: string, args: Record<string, unknown>): string {
+	const call = JSON.stringify(args, null, 2);
+	return `${text}\n\nCall \`${tool}\` with:\n\`\`\`json\n${call}\n\`\`\``;
+}
+
+function instructions(title: string, steps: string[], ids: ReturnType<typeof interactionIds>) {
+	const text = [
+		`${title}. Make these tool calls in order, waiting for each to succeed before the next:`,
+		...steps.map((text, index) => `${index + 1}. ${text}`),
+		[
+			"Notes:",
+			`- Keep using sessionId "${ids.sessionId}" for the rest of this conversation, and use a new correlationId for each user turn.`,
+			"- Leave out timestamp; the server fills in the current time. If you pass one, use MM-DD-YYYY HH:MM:SS or ISO 8601 with an offset.",
+			"- userId can be left out when the connection is authenticated as the user.",
+			'- A result with "status": "queued" was accepted and will be delivered later; do not call again.',
+			"- If a call fails, retrying it with the same arguments is safe: it will not be logged twice.",
+			"- logInteraction logs the same steps in a single call, if you prefer.",
+		].join("\n"),
+	].join("\n\n");
+	return {
+		description: title,
+		messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+	};
+}
@@ -0,0 +1,267 @@
+// What a rule puts in place of a match: a fixed marker, or a keyed hash that keeps equal values linkable
+export type RedactionAction = "mask" | "hash";
+
+export type RedactionChecksum = "luhn" | "iban";
+
+export interface RedactionRule {
+	name: string;
+	// Regular expression source; every match is redacted
+	pattern?: string;
+	flags?: string;
+	// Words or phrases redacted wherever they appear as whole words, ignoring case
+	terms?: string[];
+	// Checksum a match must pass to count, which cuts false positives on long numbers
+	checksum?: RedactionChecksum;
+	action?: RedactionAction;
+}
+
+// Read from REDACTION_CONFIG, or `redaction` in a tenant's TENANTS entry
+export interface RedactionConfig {
+	// Built-in detectors to run, by name (default all of them)
+	builtins?: string[];
+	rules?: RedactionRule[];
+	// Action for rules that do not set their own (default "mask")
+	action?: RedactionAction;
+}
+
+// One redacted span of the original text
+export interface RedactionMatch {
+	rule: string;
+	action: RedactionAction;
+	start: number;
+	end: number;
+	replacement: string;
+}
+
+// What tool results report: how much was redacted, never what
+export interface RedactionReport {
+	redacted: number;
+	rules: Record<string, number>;
+}
+
+interface CompiledRule {
+	name: string;
+	regex: RegExp;
+	check?: (match: string) => boolean;
+	action: RedactionAction;
+}
+
+export const BUILTIN_RULES: Record<string, Omit<RedactionRule, "name">> = {
+	email: { pattern: "[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*\\.[A-Za-z]{2,}" },
+	// International numbers with a + prefix, and North American ones
+	phone: {
+		pattern:
+			"(?<![\\w+])(?:\\+\\d{1,3}[\\s.-]?(?:\\(\\d{1,4}\\)[\\s.-]?)?\\d{1,4}(?:[\\s.-]?\\d{2,4}){1,4}|\\(\\d{3}\\)\\s?\\d{3}[\\s.-]\\d{4}|\\d{3}[.-]\\d{3}[.-]\\d{4})(?!\\w)",
+	},
+	card_number: { pattern: "(?<!\\d)\\d(?:[ -]?\\d){12,18}(?!\\d)", checksum: "luhn" },
+	iban: { pattern: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]){11,30}\\b", checksum: "iban" },
+	// Well-known credential formats: OpenAI/Anthropic-style, AWS, GitHub, Slack, Google, JWTs, bearer tokens
+	api_key: {
+		pattern:
+			"\\bsk-[A-Za-z0-9_-]{20,}|\\bAKIA[0-9A-Z]{16}\\b|\\bgh[pousr]_[A-Za-z0-9]{36,}|\\bxox[abprs]-[A-Za-z0-9-]{10,}|\\bAIza[0-9A-Za-z_-]{35}|\\beyJ[\\w-]+\\.eyJ[\\w-]+\\.[\\w-]+|\\bBearer\\s+[A-Za-z0-9._~+/-]{20,}=*",
+	},
+};
+
+const CHECKSUMS: Record<RedactionChecksum, (match: string) => boolean> = {
+	luhn: passesLuhn,
+	iban: passesIbanCheck,
+};
+
+export class RedactionConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "RedactionConfigError";
+	}
+}
+
+export function parseRedactionConfig(json?: string): RedactionConfig | undefined {
+	if (!json) {
+		return undefined;
+	}
+	try {
+		return JSON.parse(json);
+	} catch {
+		throw new RedactionConfigError("REDACTION_CONFIG is not valid JSON");
+	}
+}
+
+/**
+ * Masks or hashes sensitive values in text before it is sent to COMPLiQ. Rules are
+ * regular expressions, term dictionaries, or either combined with a checksum. Where
+ * matches overlap, the one that starts first wins, then the longer one.
+ */
+export class Redactor {
+	private rules: CompiledRule[];
+	private hashKey?: string;
+	private key?: Promise<CryptoKey>;
+
+	// Throws RedactionConfigError on an invalid rule, so a bad config fails at startup
+	constructor(config: RedactionConfig = {}, hashKey?: string) {
+		const action = config.action ?? "mask";
+		const builtins = (config.builtins ?? Object.keys(BUILTIN_RULES)).map((name) => {
+			const rule = BUILTIN_RULES[name];
+			if (!rule) {
+				throw new RedactionConfigError(`Unknown built-in redaction rule: ${name}`);
+			}
+			return { ...rule, name };
+		});
+		this.rules = [...builtins, ...(config.rules ?? [])].map((rule) =>
+			compileRule(rule, action),
+		);
+		this.hashKey = hashKey;
+	}
+
+	get ruleNames(): string[] {
+		return this.rules.map((rule) => rule.name);
+	}
+
+	async redact(text: string): Promise<{ text: string; matches: RedactionMatch[] }> {
+		const found: Omit<RedactionMatch, "replacement">[] = [];
+		for (const rule of this.rules) {
+			for (const match of text.matchAll(rule.regex)) {
+				if (match[0].length === 0 || (rule.check && !rule.check(match[0]))) {
+					continue;
+				}
+				found.push({
+					rule: rule.name,
+					action: rule.action,
+					start: match.index!,
+					end: match.index! + match[0].length,
+				});
+			}
+		}
+		found.sort((a, b) => a.start - b.start || b.end - a.end);
+
+		const matches: RedactionMatch[] = [];
+		let redacted = "";
+		let position = 0;
+		for (const match of found) {
+			if (match.start < position) {
+				continue;
+			}
+			const replacement = await this.replacementFor(
+				match,
+				text.slice(match.start, match.end),
+			);
+			redacted += text.slice(position, match.start) + replacement;
+			position = match.end;
+			matches.push({ ...match, replacement });
+		}
+		return { text: redacted + text.slice(position), matches };
+	}
+
+	private async replacementFor(
+		match: Omit<RedactionMatch, "replacement">,
+		value: string,
+	): Promise<string> {
+		if (match.action === "mask") {
+			return `[REDACTED:${match.rule}]`;
+		}
+		return `[${match.rule}:${(await this.hash(value)).slice(0, 12)}]`;
+	}
+
+	// HMAC-SHA-256 when a key is configured, since plain hashes of short values are easy to reverse
+	private async hash(value: string): Promise<string> {
+		const data = new TextEncoder().encode(value);
+		let digest: ArrayBuffer;
+		if (this.hashKey) {
+			this.key ??= crypto.subtle.importKey(
+				"raw",
+				new TextEncoder().encode(this.hashKey),
+				{ name: "HMAC", hash: "SHA-256" },
+				false,
+				["sign"],
+			);
+			digest = await crypto.subtle.sign("HMAC", await this.key, data);
+		} else {
+			digest = await crypto.subtle.digest("SHA-256", data);
+		}
+		return [...new Uint8Array(digest)]
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("");
+	}
+}
+
+export function summarizeRedaction(matches: RedactionMatch[]): RedactionReport {
+	const rules: Record<string, number> = {};
+	for (const match of matches) {
+		rules[match.rule] = (rules[match.rule] ?? 0) + 1;
+	}
+	return { redacted: matches.length, rules };
+}
+
+function compileRule(rule: RedactionRule, defaultAction: RedactionAction): CompiledRule {
+	if (!rule.name) {
+		throw new RedactionConfigError("Every redaction rule needs a name");
+	}
+	const sources: string[] = [];
+	if (rule.pattern) {
+		sources.push(rule.pattern);
+	}
+	if (rule.terms && rule.terms.length > 0) {
+		// Longest first, so a term wins over another it starts with
+		const terms = [...rule.terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+		sources.push(`(?<![\\p{L}\\p{N}_])(?:${terms.join("|")})(?![\\p{L}\\p{N}_])`);
+	}
+	if (sources.length === 0) {
+		throw new RedactionConfigError(`Redaction rule ${rule.name} needs a pattern or terms`);
+	}
+	if (rule.checksum && !CHECKSUMS[rule.checksum]) {
+		throw new RedactionConfigError(`Unknown checksum for rule ${rule.name}: ${rule.checksum}`);
+	}
+
+	// Terms match case-insensitively, as does a pattern in the same rule, and need Unicode property escapes
+	const flags = new Set(["g", ...(rule.flags ?? "")]);
+	if (rule.terms && rule.terms.length > 0) {
+		flags.add("i");
+		flags.add("u");
+	}
+	let regex: RegExp;
+	try {
+		regex = new RegExp(sources.map((source) => `(?:${source})`).join("|"), [...flags].join(""));
+	} catch (error) {
+		throw new RedactionConfigError(
+			`Invalid pattern for rule ${rule.name}: ${(error as Error).message}`,
+		);
+	}
+	return {
+		name: rule.name,
+		regex,
+		check: rule.checksum && CHECKSUMS[rule.checksum],
+		action: rule.action ?? defaultAction,
+	};
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function passesLuhn(match: string): boolean {
+	const digits = match.replace(/\D/g, "");
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) {
+				digit -= 9;
+			}
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, read letters as 10-35, mod 97 must be 1
+function passesIbanCheck(match: string): boolean {
+	const iban = match.replace(/\s/g, "").toUpperCase();
+	const rearranged = iban.slice(4) + iban.slice(0, 4);
+	let remainder = 0;
+	for (const char of rearranged) {
+		const value = char >= "A" ? String(char.charCodeAt(0) - 55) : char;
+		for (const digit of value) {
+			remainder = (remainder * 10 + Number(digit)) % 97;
+		}
+	}
+	return remainder === 1;
+}
@@ -0,0 +1,42 @@
+import type { DurableObjectState } from "@cloudflare/workers-types";
+import { logger } from "./logger";
+
+const log = logger("registry");
+
+export interface TenantRecord {
+	tenant: string;
+	firstSeen: string;
+}
+
+// Keeps track of every tenant that has had a Durable Object created for it
+export class TenantRegistry {
+	state: DurableObjectState;
+
+	constructor(state: DurableObjectState, _env: unknown) {
+		this.state = state;
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+
+		if (request.method === "POST" && url.pathname === "/register") {
+			const { tenant } = (await request.json()) as { tenant: string };
+			const key = `tenant:${tenant}`;
+			if (!(await this.state.storage.get(key))) {
+				const record: TenantRecord = { tenant, firstSeen: new Date().toISOString() };
+				await this.state.storage.put(key, record);
+				log.info("Registered tenant", { tenant });
+			}
+			return new Response(null, { status: 204 });
+		}
+
+		if (request.method === "GET" && url.pathname === "/tenants") {
+			const records = await this.state.storage.list<TenantRecord>({ prefix: "tenant:" });
+			return new Response(JSON.stringify([...records.values()]), {
+				headers: { "Content-Type": "application/json" },
+			});
+		}
+
+		return new Response("Not found", { status: 404 });
+	}
+}
@@ -0,0 +1,94 @@
+import { AttachmentError } from "./attachments";
+import { AuthError } from "./auth";
+import { CompliqError } from "./compliq";
+import { InteractionError } from "./interactions";
+import { RateLimitError } from "./limits";
+import { SinkError } from "./sinks";
+import { UploadError } from "./uploads";
+
+// The arguments of a tool call are inconsistent in a way the schema cannot express
+export class ToolInputError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ToolInputError";
+	}
+}
+
+/**
+ * A tool's result as `structuredContent` matching its output schema, with a one-line summary
+ * for people. The JSON is repeated as text for clients that do not read structured content.
+ */
+export function toolResult(result: Record<string, unknown>, summary: string) {
+	return {
+		content: [
+			{ type: "text", text: summary },
+			{ type: "text", text: JSON.stringify(result) },
+		],
+		structuredContent: result,
+	};
+}
+
+/**
+ * Reports a failed tool call with `isError` set, so MCP clients do not mistake it for a
+ * successful submission. `{ error }` goes in the second text block only: clients check
+ * structured content against the tool's output schema even for errors.
+ */
+export function toolError(error: unknown) {
+	const described = describeError(error);
+	return {
+		isError: true,
+		content: [
+			{ type: "text", text: described.message },
+			{ type: "text", text: JSON.stringify({ error: described }) },
+		],
+	};
+}
+
+export function describeError(error: unknown) {
+	if (error instanceof CompliqError) {
+		return {
+			type: error.kind,
+			message: error.message,
+			status: error.status,
+			retryable: error.retryable,
+			details: error.details,
+		};
+	}
+	if (error instanceof AuthError) {
+		return { type: "unauthorized", message: error.message };
+	}
+	if (error instanceof InteractionError) {
+		return { type: "out_of_order", message: error.message };
+	}
+	if (error instanceof AttachmentError) {
+		return {
+			type: "invalid_attachment",
+			code: error.code,
+			message: error.message,
+			details: error.details,
+		};
+	}
+	if (error instanceof UploadError) {
+		return { type: "invalid_upload", message: error.message };
+	}
+	if (error instanceof RateLimitError) {
+		return {
+			type: "rate_limited",
+			scope: error.scope,
+			message: error.message,
+			retryAfter: error.retryAfter,
+		};
+	}
+	if (error instanceof SinkError) {
+		return {
+			type: "sink_failed",
+			sink: error.sink,
+			message: error.message,
+			status: error.status,
+		};
+	}
+	if (error instanceof ToolInputError) {
+		return { type: "invalid_input", message: error.message };
+	}
+	return { type: "internal", message: (error as any)?.message || "Unknown error" };
+}
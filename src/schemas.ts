@@ -0,0 +1,309 @@
+import { z } from "zod";
+import type { CompliqRecord, CompliqRequest } from "./compliq";
+import { summarizeRequest } from "./history";
+import type { PolicyResult } from "./policies";
+import type { RedactionReport } from "./redaction";
+import type { SinkReport } from "./sinks";
+import type { CompliqEndpoint } from "./targets";
+
+/**
+ * What a submission tool returns. `accepted` is the request as it went to COMPLiQ, after
+ * times were filled in and content redacted; warnings are policy findings, out-of-order
+ * calls that were let through and sinks that failed. The status and record are those of the
+ * first sink that took the submission.
+ */
+export interface SubmitResult {
+	status: "delivered" | "queued";
+	recordId?: string;
+	record?: CompliqRecord;
+	sinks: SinkReport[];
+	reason?: string;
+	nextAttemptAt?: string;
+	accepted: Record<string, unknown>;
+	warnings: string[];
+	redaction: RedactionReport;
+	compliance?: PolicyResult;
+}
+
+const ENDPOINTS = ["taskInput", "fileInput", "resourcesUsed", "output"] as const;
+
+// What each endpoint logs, for text summaries
+const LOGGED: Record<CompliqEndpoint, string> = {
+	taskInput: "prompt",
+	fileInput: "file",
+	resourcesUsed: "intermediate result",
+	output: "answer",
+};
+
+const policyTarget = z.enum(["prompt", "answer"]);
+
+// Both what policyPack takes to set the pack and what it returns
+export const policyPackSchema = z.object({
+	bannedTerms: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Words or phrases that block content"),
+	topics: z
+		.array(
+			z.object({
+				name: z.string(),
+				pattern: z
+					.string()
+					.describe("Regular expression, matched ignoring case unless flags are given"),
+				flags: z.string().optional(),
+				appliesTo: z.array(policyTarget).optional(),
+				decision: z.enum(["warn", "block"]).optional().describe("Defaults to warn"),
+			}),
+		)
+		.optional(),
+	maxLength: z
+		.object({
+			prompt: z.number().int().positive().optional(),
+			answer: z.number().int().positive().optional(),
+		})
+		.optional()
+		.describe("Longest prompt and answer allowed, in characters"),
+	requiredDisclaimers: z
+		.array(z.string().min(1))
+		.optional()
+		.describe("Text every answer must contain"),
+});
+
+const policyResultShape = {
+	decision: z.enum(["allow", "warn", "block"]),
+	reasons: z.array(
+		z.object({
+			type: z.enum(["banned_term", "topic", "max_length", "missing_disclaimer"]),
+			decision: z.enum(["warn", "block"]),
+			message: z.string(),
+			rule: z.string().optional(),
+		}),
+	),
+};
+
+const redactionShape = {
+	redacted: z.number().int().describe("How many values were redacted"),
+	rules: z.record(z.number().int()).describe("How many values each rule redacted"),
+};
+
+const errorSchema = z
+	.object({ type: z.string(), message: z.string() })
+	.passthrough()
+	.describe("What went wrong; type is e.g. compliq_validation or invalid_input");
+
+const sinkReport = z.object({
+	sink: z.string(),
+	type: z.enum(["compliq", "webhook", "r2", "storage"]),
+	status: z.enum(["delivered", "queued", "failed"]),
+	recordId: z.string().optional(),
+	error: errorSchema.optional(),
+});
+
+export const submissionOutput = {
+	status: z
+		.enum(["delivered", "queued"])
+		.describe(
+			"delivered: the first sink that took it (COMPLiQ unless configured otherwise) accepted it; queued: it is stored and will be delivered later",
+		),
+	recordId: z.string().optional().describe("ID of the record, if that sink returned one"),
+	record: z.unknown().optional().describe("COMPLiQ's response, when delivered"),
+	sinks: z
+		.array(sinkReport)
+		.describe("What each of the tenant's audit sinks did with the submission"),
+	reason: z.string().optional().describe("Why the submission was queued"),
+	nextAttemptAt: z
+		.string()
+		.optional()
+		.describe("When delivery of a queued submission is next tried"),
+	accepted: z
+		.record(z.unknown())
+		.describe(
+			"The fields sent to COMPLiQ, with times filled in; files are described by name, type and size, and content is left out",
+		),
+	warnings: z
+		.array(z.string())
+		.describe("Policy warnings and out-of-order calls that were logged anyway"),
+	redaction: z.object(redactionShape),
+	compliance: z
+		.object(policyResultShape)
+		.optional()
+		.describe("The policy check of a prompt or answer, if the tenant has a policy pack"),
+};
+
+export const logInteractionOutput = {
+	completed: z.boolean().describe("Whether every step was logged"),
+	blocked: z.boolean().describe("Whether the policy pack blocked the prompt or the answer"),
+	steps: z.array(
+		z.object({
+			step: z.enum(ENDPOINTS),
+			status: z.enum(["delivered", "queued", "blocked", "failed", "skipped"]),
+			result: z.object(submissionOutput).optional(),
+			error: errorSchema.optional(),
+		}),
+	),
+};
+
+export const previewRedactionOutput = {
+	content: z.string().describe("The content as it would be sent to COMPLiQ"),
+	...redactionShape,
+	matches: z.array(
+		z.object({
+			rule: z.string(),
+			action: z.enum(["mask", "hash"]),
+			start: z.number().int(),
+			end: z.number().int(),
+			replacement: z.string(),
+			value: z.string().describe("The text that would be replaced"),
+		}),
+	),
+};
+
+export const checkComplianceOutput = {
+	...policyResultShape,
+	policyPack: z.boolean().describe("Whether the tenant has a policy pack"),
+};
+
+export const policyPackOutput = {
+	pack: policyPackSchema.nullable().describe("The tenant's policy pack, or null if it has none"),
+};
+
+export const interactionStatusOutput = {
+	interactions: z.array(
+		z.object({
+			sessionId: z.string(),
+			correlationId: z.string(),
+			state: z.enum(["opened", "files_attached", "in_progress", "completed"]),
+			stale: z.boolean().describe("Whether it was left open past the interaction timeout"),
+			files: z.number().int(),
+			intermediateSteps: z.number().int(),
+			openedAt: z.string(),
+			updatedAt: z.string(),
+			completedAt: z.string().optional(),
+			flags: z.array(
+				z.object({
+					type: z.enum(["out_of_order", "stale"]),
+					message: z.string(),
+					at: z.string(),
+				}),
+			),
+		}),
+	),
+};
+
+const queuedSubmission = z.object({
+	id: z.string(),
+	endpoint: z.enum(ENDPOINTS),
+	sessionId: z.string(),
+	correlationId: z.string(),
+	file: z.object({ name: z.string(), contentType: z.string() }).optional(),
+	attempts: z.number().int(),
+	createdAt: z.string(),
+	nextAttemptAt: z.string(),
+	deadAt: z.string().optional().describe("When it was given up on, for dead letters"),
+	lastError: z.unknown().optional(),
+});
+
+export const deadLetterQueueOutput = {
+	pending: z.array(queuedSubmission).optional().describe("Submissions waiting to be delivered"),
+	deadLetters: z.array(queuedSubmission).optional().describe("Submissions that were given up on"),
+	replayed: z.number().int().optional().describe("How many dead letters were queued again"),
+	purged: z.number().int().optional().describe("How many dead letters were deleted"),
+};
+
+const bucketStatus = z.object({
+	requests: z.number().int(),
+	perSeconds: z.number(),
+	remaining: z.number().int().describe("Calls that can be made right now"),
+	fullAt: z.string().describe("When all calls will be available again"),
+});
+
+const byteQuotaStatus = z.object({
+	limit: z.number().int(),
+	used: z.number().int(),
+	remaining: z.number().int(),
+	resetsAt: z.string(),
+});
+
+export const quotaStatusOutput = {
+	requests: z
+		.object({
+			tenant: bucketStatus.optional(),
+			user: bucketStatus.optional(),
+			session: bucketStatus.optional(),
+		})
+		.describe("Each rate limit that applies to the caller; missing ones are off"),
+	uploadBytes: z
+		.object({ tenant: byteQuotaStatus.optional(), user: byteQuotaStatus.optional() })
+		.describe("File bytes that can still be received today (UTC)"),
+};
+
+// The request a submission tool reports as accepted; the content itself is not echoed back
+export function acceptedFields(request: CompliqRequest): Record<string, unknown> {
+	const { content, ...fields } = summarizeRequest(request);
+	return fields;
+}
+
+// e.g. "Logged the prompt for s1/c1 as COMPLiQ record 42. Redacted 1 value(s)."
+export function describeSubmission(endpoint: CompliqEndpoint, result: SubmitResult): string {
+	const { sessionId, correlationId } = result.accepted;
+	const what = `the ${LOGGED[endpoint]} for ${sessionId}/${correlationId}`;
+	const sentences: string[] = [];
+	if (result.status === "queued") {
+		sentences.push(sentence(`Queued ${what}: ${result.reason}`));
+		sentences.push(
+			result.nextAttemptAt
+				? `Delivery is retried at ${result.nextAttemptAt}.`
+				: "It is delivered once the dead letter ahead of it is replayed or purged.",
+		);
+	} else if (result.recordId) {
+		const sink = result.sinks.find((report) => report.status !== "failed");
+		const store = !sink || sink.type === "compliq" ? "COMPLiQ" : sink.sink;
+		sentences.push(`Logged ${what} as ${store} record ${result.recordId}.`);
+	} else {
+		sentences.push(`Logged ${what}.`);
+	}
+	if (result.compliance?.decision === "block") {
+		sentences.push("It was blocked by the policy pack and marked as a violation.");
+	}
+	if (result.redaction.redacted > 0) {
+		sentences.push(`Redacted ${result.redaction.redacted} value(s).`);
+	}
+	if (result.warnings.length > 0) {
+		sentences.push(sentence(`Warnings: ${result.warnings.join("; ")}`));
+	}
+	return sentences.join(" ");
+}
+
+export function describePolicyResult(result: PolicyResult): string {
+	if (result.decision === "allow") {
+		return "Allowed by the policy pack.";
+	}
+	const reasons = result.reasons.map((reason) => reason.message).join("; ");
+	return sentence(
+		`${result.decision === "block" ? "Blocked" : "Allowed with warnings"}: ${reasons}`,
+	);
+}
+
+// e.g. "Calls left: tenant 1190 of 1200, user 3 of 120. Upload bytes left today: tenant 10737418240."
+export function describeQuotaStatus(status: {
+	requests: Partial<Record<string, { requests: number; remaining: number }>>;
+	uploadBytes: Partial<Record<string, { remaining: number }>>;
+}): string {
+	const calls = Object.entries(status.requests).map(
+		([scope, bucket]) => `${scope} ${bucket?.remaining} of ${bucket?.requests}`,
+	);
+	const bytes = Object.entries(status.uploadBytes).map(
+		([scope, quota]) => `${scope} ${quota?.remaining}`,
+	);
+	return [
+		calls.length > 0 ? `Calls left: ${calls.join(", ")}.` : "Calls are not rate limited.",
+		bytes.length > 0
+			? `Upload bytes left today: ${bytes.join(", ")}.`
+			: "Uploads have no daily quota.",
+	].join(" ");
+}
+
+// Error messages may or may not end in a full stop already
+function sentence(text: string): string {
+	return /[.!?]$/.test(text) ? text : `${text}.`;
+}
@@ -0,0 +1,86 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+
+const PREFIX = "mcp-session:";
+
+export const DEFAULT_MCP_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+// How stale lastUsedAt may get, so a busy session is not written on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// A Streamable HTTP session on /mcp
+export interface McpSession {
+	sessionId: string;
+	createdAt: number;
+	lastUsedAt: number;
+	// Subject of the principal that opened the session; only it may use the session
+	subject?: string;
+}
+
+/**
+ * Streamable HTTP sessions, kept in storage so they outlive the Durable Object being evicted
+ * or hibernating. A session expires once it has not been used for the TTL.
+ */
+export class McpSessionStore {
+	private storage: DurableObjectStorage;
+	private ttlMs: number;
+
+	constructor(storage: DurableObjectStorage, ttlMs = DEFAULT_MCP_SESSION_TTL_MS) {
+		this.storage = storage;
+		this.ttlMs = ttlMs;
+	}
+
+	async create(subject: string | undefined, now = Date.now()): Promise<McpSession> {
+		const session: McpSession = {
+			sessionId: crypto.randomUUID(),
+			createdAt: now,
+			lastUsedAt: now,
+			subject,
+		};
+		await this.storage.put(`${PREFIX}${session.sessionId}`, session);
+		return session;
+	}
+
+	async get(sessionId: string, now = Date.now()): Promise<McpSession | undefined> {
+		const session = await this.storage.get<McpSession>(`${PREFIX}${sessionId}`);
+		if (!session || this.deadline(session) <= now) {
+			return undefined;
+		}
+		return session;
+	}
+
+	async touch(session: McpSession, now = Date.now()) {
+		if (now - session.lastUsedAt >= TOUCH_INTERVAL_MS) {
+			session.lastUsedAt = now;
+			await this.storage.put(`${PREFIX}${session.sessionId}`, session);
+		}
+	}
+
+	// When the session expires unless it is used again
+	deadline(session: McpSession): number {
+		return session.lastUsedAt + this.ttlMs;
+	}
+
+	async delete(sessionId: string) {
+		await this.storage.delete(`${PREFIX}${sessionId}`);
+	}
+
+	// Deletes sessions unused for the TTL, returning how many
+	async sweep(now = Date.now()): Promise<number> {
+		const expired = (await this.list())
+			.filter((session) => this.deadline(session) <= now)
+			.map((session) => `${PREFIX}${session.sessionId}`);
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.storage.delete(expired.slice(i, i + 128));
+		}
+		return expired.length;
+	}
+
+	async nextDeadline(): Promise<number | undefined> {
+		const deadlines = (await this.list()).map((session) => this.deadline(session));
+		return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+	}
+
+	private async list(): Promise<McpSession[]> {
+		const entries = await this.storage.list<McpSession>({ prefix: PREFIX });
+		return [...entries.values()];
+	}
+}
@@ -0,0 +1,426 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { type CompliqFile, type CompliqRequest, fileSize, fileStream } from "./compliq";
+import { summarizeRequest } from "./history";
+import { TRACE_HEADER, currentTrace } from "./logger";
+import type { CompliqEndpoint } from "./targets";
+
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+// Headers of a webhook delivery; the signature is an HMAC-SHA-256 of `${timestamp}.${body}`
+export const SIGNATURE_HEADER = "X-Compliq-Signature";
+export const TIMESTAMP_HEADER = "X-Compliq-Timestamp";
+export const DEFAULT_ARCHIVE_BINDING = "AUDIT_ARCHIVE";
+export const DEFAULT_STORAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const ENTRY_PREFIX = "audit-entry:";
+
+// Read from AUDIT_SINKS, or `sinks` in a tenant's TENANTS entry. `name` defaults to the type.
+export type SinkConfig =
+	| { type: "compliq"; name?: string }
+	| { type: "webhook"; name?: string; url: string; secret: string; timeoutMs?: number }
+	// One NDJSON object per submission, with files stored next to it
+	| { type: "r2"; name?: string; binding?: string; prefix?: string }
+	// Kept in the tenant's Durable Object for `retentionMs`, readable through the admin API
+	| { type: "storage"; name?: string; retentionMs?: number };
+
+export type SinkType = SinkConfig["type"];
+
+// One submission, as every sink of the tenant is given it
+export interface AuditEntry {
+	id: string;
+	tenant: string;
+	endpoint: CompliqEndpoint;
+	request: CompliqRequest;
+	at: number;
+}
+
+export interface SinkDelivery {
+	status: "delivered" | "queued";
+	recordId?: string;
+	record?: unknown;
+	reason?: string;
+	nextAttemptAt?: string;
+}
+
+// What one sink did with a submission, as reported to the client
+export interface SinkReport {
+	sink: string;
+	type: SinkType;
+	status: "delivered" | "queued" | "failed";
+	recordId?: string;
+	error?: { type: string; message: string };
+}
+
+export interface AuditSink {
+	readonly name: string;
+	readonly type: SinkType;
+	// Resolves once the sink has the submission, or has queued it; throws if it refused
+	write(entry: AuditEntry): Promise<SinkDelivery>;
+}
+
+export class SinkConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SinkConfigError";
+	}
+}
+
+// A sink other than COMPLiQ did not take a submission
+export class SinkError extends Error {
+	sink: string;
+	status?: number;
+
+	constructor(sink: string, message: string, status?: number) {
+		super(message);
+		this.name = "SinkError";
+		this.sink = sink;
+		this.status = status;
+	}
+}
+
+export function sinkName(config: SinkConfig): string {
+	return config.name ?? config.type;
+}
+
+/**
+ * The sinks a tenant writes to: its own `sinks`, else AUDIT_SINKS, else COMPLiQ alone.
+ * Throws SinkConfigError on an invalid list, so a bad config fails at startup.
+ */
+export function resolveSinks(json?: string, tenant?: SinkConfig[]): SinkConfig[] {
+	let configs: SinkConfig[] = [{ type: "compliq" }];
+	if (tenant) {
+		configs = tenant;
+	} else if (json) {
+		try {
+			configs = JSON.parse(json);
+		} catch {
+			throw new SinkConfigError("AUDIT_SINKS is not valid JSON");
+		}
+	}
+	if (!Array.isArray(configs) || configs.length === 0) {
+		throw new SinkConfigError("At least one audit sink must be configured");
+	}
+
+	const names = new Set<string>();
+	for (const config of configs) {
+		const name = sinkName(config);
+		if (names.has(name)) {
+			throw new SinkConfigError(`Two audit sinks are named ${name}`);
+		}
+		names.add(name);
+		if (config.type === "webhook") {
+			validateWebhook(name, config.url, config.secret);
+		} else if (
+			config.type === "storage" &&
+			config.retentionMs !== undefined &&
+			!(typeof config.retentionMs === "number" && config.retentionMs > 0)
+		) {
+			throw new SinkConfigError(
+				`retentionMs of storage sink ${name} must be a positive number`,
+			);
+		} else if (!["compliq", "r2", "storage"].includes(config.type)) {
+			throw new SinkConfigError(`Unknown audit sink type: ${(config as SinkConfig).type}`);
+		}
+	}
+	return configs;
+}
+
+function validateWebhook(name: string, url: string, secret: string) {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw new SinkConfigError(`Invalid URL for webhook sink ${name}: ${url}`);
+	}
+	const isLocal = parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1";
+	if (parsed.protocol !== "https:" && !(isLocal && parsed.protocol === "http:")) {
+		throw new SinkConfigError(`Webhook sink ${name} must use https: ${url}`);
+	}
+	if (!secret) {
+		throw new SinkConfigError(`Webhook sink ${name} needs a secret to sign its payloads`);
+	}
+}
+
+// Sortable by time, like history event IDs
+export function auditEntryId(now = Date.now()): string {
+	return `${timePrefix(now)}${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function timePrefix(at: number): string {
+	return at.toString(36).padStart(9, "0");
+}
+
+// What sinks other than COMPLiQ record: the request with any file given by name, type and size
+export function describeEntry(entry: AuditEntry) {
+	return {
+		id: entry.id,
+		tenant: entry.tenant,
+		endpoint: entry.endpoint,
+		at: new Date(entry.at).toISOString(),
+		request: summarizeRequest(entry.request),
+	};
+}
+
+// COMPLiQ itself, through the server's delivery path with its outbox
+export class CompliqSink implements AuditSink {
+	readonly type = "compliq";
+	readonly name: string;
+	private deliver: (endpoint: CompliqEndpoint, request: CompliqRequest) => Promise<SinkDelivery>;
+
+	constructor(
+		name: string,
+		deliver: (endpoint: CompliqEndpoint, request: CompliqRequest) => Promise<SinkDelivery>,
+	) {
+		this.name = name;
+		this.deliver = deliver;
+	}
+
+	write(entry: AuditEntry): Promise<SinkDelivery> {
+		return this.deliver(entry.endpoint, entry.request);
+	}
+}
+
+/**
+ * Posts each submission as JSON, signed so the receiver can check it came from this server
+ * and is recent. The entry ID is sent as `Idempotency-Key`, so retries can be recognized.
+ */
+export class WebhookSink implements AuditSink {
+	readonly type = "webhook";
+	readonly name: string;
+	private url: string;
+	private secret: string;
+	private timeoutMs: number;
+	private key?: Promise<CryptoKey>;
+
+	constructor(name: string, url: string, secret: string, timeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS) {
+		this.name = name;
+		this.url = url;
+		this.secret = secret;
+		this.timeoutMs = timeoutMs;
+	}
+
+	async write(entry: AuditEntry): Promise<SinkDelivery> {
+		const body = JSON.stringify(describeEntry(entry));
+		const timestamp = String(Math.floor(Date.now() / 1000));
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+			"Idempotency-Key": entry.id,
+			[TIMESTAMP_HEADER]: timestamp,
+			[SIGNATURE_HEADER]: `sha256=${await this.sign(`${timestamp}.${body}`)}`,
+		};
+		const trace = currentTrace();
+		if (trace) {
+			headers[TRACE_HEADER] = trace.traceId;
+		}
+
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+		let response: Response;
+		try {
+			response = await fetch(this.url, {
+				method: "POST",
+				headers,
+				body,
+				signal: controller.signal,
+			});
+		} catch (error: any) {
+			if (controller.signal.aborted) {
+				throw new SinkError(
+					this.name,
+					`Webhook did not respond within ${this.timeoutMs}ms`,
+				);
+			}
+			throw new SinkError(this.name, `Could not reach webhook: ${error.message || error}`);
+		} finally {
+			clearTimeout(timer);
+		}
+		await response.body?.cancel();
+		if (!response.ok) {
+			throw new SinkError(
+				this.name,
+				`Webhook failed with ${response.status}`,
+				response.status,
+			);
+		}
+		return { status: "delivered" };
+	}
+
+	private async sign(payload: string): Promise<string> {
+		this.key ??= crypto.subtle.importKey(
+			"raw",
+			new TextEncoder().encode(this.secret),
+			{ name: "HMAC", hash: "SHA-256" },
+			false,
+			["sign"],
+		);
+		const signature = await crypto.subtle.sign(
+			"HMAC",
+			await this.key,
+			new TextEncoder().encode(payload),
+		);
+		return [...new Uint8Array(signature)]
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("");
+	}
+}
+
+// The part of an R2 bucket binding the R2 sink uses
+interface ArchiveBucket {
+	put(
+		key: string,
+		value: ReadableStream | ArrayBufferView | string,
+		options?: { httpMetadata?: { contentType?: string } },
+	): Promise<unknown>;
+}
+
+/**
+ * Archives submissions to R2 as `{prefix}{tenant}/{YYYY-MM-DD}/{id}.ndjson`, one JSON line
+ * each, so a day's prefix reads as one NDJSON dataset. A file is stored under
+ * `{id}/{fileName}` beside it, and its key is added to the line.
+ */
+export class R2Sink implements AuditSink {
+	readonly type = "r2";
+	readonly name: string;
+	private bucket: ArchiveBucket;
+	private prefix: string;
+
+	constructor(name: string, bucket: ArchiveBucket, prefix = "") {
+		this.name = name;
+		this.bucket = bucket;
+		this.prefix = prefix;
+	}
+
+	async write(entry: AuditEntry): Promise<SinkDelivery> {
+		const day = new Date(entry.at).toISOString().slice(0, 10);
+		const base = `${this.prefix}${entry.tenant}/${day}/${entry.id}`;
+		const line = describeEntry(entry);
+		const file = (entry.request as { file?: CompliqFile }).file;
+		try {
+			if (file) {
+				const key = `${base}/${file.name}`;
+				await this.bucket.put(key, fileBody(file), {
+					httpMetadata: { contentType: file.contentType },
+				});
+				line.request.file = { ...(line.request.file as object), key };
+			}
+			await this.bucket.put(`${base}.ndjson`, `${JSON.stringify(line)}\n`, {
+				httpMetadata: { contentType: "application/x-ndjson" },
+			});
+		} catch (error: any) {
+			throw new SinkError(this.name, `Could not archive to R2: ${error.message || error}`);
+		}
+		return { status: "delivered", recordId: `${base}.ndjson` };
+	}
+}
+
+/**
+ * Keeps submissions in the tenant's Durable Object, in the order they were made. Entries
+ * older than the retention period are deleted as new ones are written.
+ */
+export class StorageSink implements AuditSink {
+	readonly type = "storage";
+	readonly name: string;
+	private storage: DurableObjectStorage;
+	private retentionMs: number;
+
+	constructor(
+		name: string,
+		storage: DurableObjectStorage,
+		retentionMs = DEFAULT_STORAGE_RETENTION_MS,
+	) {
+		this.name = name;
+		this.storage = storage;
+		this.retentionMs = retentionMs;
+	}
+
+	async write(entry: AuditEntry): Promise<SinkDelivery> {
+		try {
+			await this.storage.put(`${ENTRY_PREFIX}${entry.id}`, describeEntry(entry));
+			await this.prune(entry.at);
+		} catch (error: any) {
+			throw new SinkError(this.name, `Could not store entry: ${error.message || error}`);
+		}
+		return { status: "delivered", recordId: entry.id };
+	}
+
+	// Entry IDs start with their time, so the expired ones sort before the cutoff
+	private async prune(now: number) {
+		const expired = await this.storage.list({
+			prefix: ENTRY_PREFIX,
+			end: `${ENTRY_PREFIX}${timePrefix(now - this.retentionMs)}`,
+			limit: 128,
+		});
+		if (expired.size > 0) {
+			await this.storage.delete([...expired.keys()]);
+		}
+	}
+}
+
+// A page of the entries a storage sink kept, oldest first, starting after `cursor`
+export async function listStoredEntries(
+	storage: DurableObjectStorage,
+	limit: number,
+	cursor?: string,
+): Promise<{ entries: ReturnType<typeof describeEntry>[]; nextCursor?: string }> {
+	const stored = await storage.list<ReturnType<typeof describeEntry>>({
+		prefix: ENTRY_PREFIX,
+		startAfter: cursor === undefined ? undefined : `${ENTRY_PREFIX}${cursor}`,
+		limit: limit + 1,
+	});
+	const entries = [...stored.values()];
+	const more = entries.length > limit;
+	return {
+		entries: entries.slice(0, limit),
+		nextCursor: more ? entries[limit - 1].id : undefined,
+	};
+}
+
+/**
+ * Builds the sinks of a tenant from its config. `bindings` holds the worker's environment,
+ * where R2 sinks find their bucket.
+ */
+export function createSinks(
+	configs: SinkConfig[],
+	options: {
+		deliverToCompliq: (
+			endpoint: CompliqEndpoint,
+			request: CompliqRequest,
+		) => Promise<SinkDelivery>;
+		storage: DurableObjectStorage;
+		bindings: Record<string, unknown>;
+	},
+): AuditSink[] {
+	return configs.map((config) => {
+		const name = sinkName(config);
+		switch (config.type) {
+			case "compliq":
+				return new CompliqSink(name, options.deliverToCompliq);
+			case "webhook":
+				return new WebhookSink(name, config.url, config.secret, config.timeoutMs);
+			case "r2": {
+				const binding = config.binding ?? DEFAULT_ARCHIVE_BINDING;
+				const bucket = options.bindings[binding] as ArchiveBucket | undefined;
+				if (!bucket) {
+					throw new SinkConfigError(
+						`R2 sink ${name} needs the ${binding} bucket binding`,
+					);
+				}
+				return new R2Sink(name, bucket, config.prefix);
+			}
+			case "storage":
+				return new StorageSink(name, options.storage, config.retentionMs);
+		}
+	});
+}
+
+// R2 needs to know the length of a stream up front
+function fileBody(file: CompliqFile): ReadableStream | Uint8Array {
+	if (file.data instanceof Uint8Array) {
+		return file.data;
+	}
+	const { readable, writable } = new FixedLengthStream(fileSize(file.data));
+	// A failed read must fail the put rather than go unhandled
+	fileStream(file.data)
+		.pipeTo(writable)
+		.catch((error) => writable.abort(error));
+	return readable;
+}
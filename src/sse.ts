@@ -0,0 +1,214 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+
+const SESSION_PREFIX = "sse-session:";
+const EVENT_PREFIX = "sse-event:";
+
+export const DEFAULT_SSE_RETENTION_MS = 5 * 60 * 1000;
+export const DEFAULT_SSE_BUFFER_EVENTS = 100;
+
+// An SSE session, kept across reconnects and restarts of the Durable Object
+export interface SseSession {
+	sessionId: string;
+	// Subject of the principal that opened the session; only it may use or resume it
+	subject?: string;
+	createdAt: number;
+	// Sequence number of the last event sent on the session
+	lastEventId: number;
+	// When its stream closed; unset while a stream is open
+	disconnectedAt?: number;
+	// Resource URIs the session subscribed to
+	subscriptions: string[];
+}
+
+export interface SseEvent {
+	id: number;
+	event: string;
+	data: string;
+	at: number;
+}
+
+export interface SseSessionOptions {
+	retentionMs?: number;
+	// How many recent events of each session are kept for replay
+	maxEvents?: number;
+}
+
+/**
+ * SSE sessions and their recent events. Every event a session is sent gets the next
+ * sequence number and is buffered, so a client that reconnects with `Last-Event-ID` can
+ * be sent what it missed. A session is kept until its stream has been closed for the
+ * retention period.
+ */
+export class SseSessionStore {
+	private storage: DurableObjectStorage;
+	private retentionMs: number;
+	private maxEvents: number;
+	// Sessions in use, so sequence numbers are handed out without waiting on storage
+	private sessions = new Map<string, SseSession>();
+
+	constructor(storage: DurableObjectStorage, options: SseSessionOptions = {}) {
+		this.storage = storage;
+		this.retentionMs = options.retentionMs ?? DEFAULT_SSE_RETENTION_MS;
+		this.maxEvents = Math.max(1, options.maxEvents ?? DEFAULT_SSE_BUFFER_EVENTS);
+	}
+
+	async open(subject: string | undefined, now = Date.now()): Promise<SseSession> {
+		const session: SseSession = {
+			sessionId: crypto.randomUUID(),
+			subject,
+			createdAt: now,
+			lastEventId: 0,
+			subscriptions: [],
+		};
+		this.sessions.set(session.sessionId, session);
+		await this.save(session);
+		return session;
+	}
+
+	async get(sessionId: string): Promise<SseSession | undefined> {
+		const cached = this.sessions.get(sessionId);
+		if (cached) {
+			return cached;
+		}
+		const stored = await this.storage.get<SseSession>(`${SESSION_PREFIX}${sessionId}`);
+		// Another caller may have loaded it meanwhile; both must share one copy
+		if (stored && !this.sessions.has(sessionId)) {
+			this.sessions.set(sessionId, stored);
+		}
+		return this.sessions.get(sessionId);
+	}
+
+	async connect(session: SseSession) {
+		session.disconnectedAt = undefined;
+		await this.save(session);
+	}
+
+	// Returns when the session expires unless its client reconnects
+	async disconnect(session: SseSession, now = Date.now()): Promise<number> {
+		session.disconnectedAt = now;
+		await this.save(session);
+		return now + this.retentionMs;
+	}
+
+	// Buffers an event for the session, or returns undefined if the session is gone
+	async append(
+		sessionId: string,
+		event: string,
+		data: string,
+		now = Date.now(),
+	): Promise<SseEvent | undefined> {
+		const session = await this.get(sessionId);
+		if (!session) {
+			return undefined;
+		}
+		const stored: SseEvent = { id: ++session.lastEventId, event, data, at: now };
+		await this.storage.put({
+			[`${SESSION_PREFIX}${sessionId}`]: session,
+			[eventKey(sessionId, stored.id)]: stored,
+		});
+		if (stored.id > this.maxEvents) {
+			await this.storage.delete(eventKey(sessionId, stored.id - this.maxEvents));
+		}
+		return stored;
+	}
+
+	// Buffered events after `lastEventId`, oldest first; older ones may have been dropped
+	async eventsAfter(sessionId: string, lastEventId: number): Promise<SseEvent[]> {
+		const entries = await this.storage.list<SseEvent>({
+			prefix: `${EVENT_PREFIX}${sessionId}/`,
+			startAfter: eventKey(sessionId, lastEventId),
+		});
+		return [...entries.values()];
+	}
+
+	async subscribe(session: SseSession, uri: string) {
+		if (!session.subscriptions.includes(uri)) {
+			session.subscriptions.push(uri);
+			await this.save(session);
+		}
+	}
+
+	async unsubscribe(session: SseSession, uri: string) {
+		if (session.subscriptions.includes(uri)) {
+			session.subscriptions = session.subscriptions.filter(
+				(subscribed) => subscribed !== uri,
+			);
+			await this.save(session);
+		}
+	}
+
+	/**
+	 * Loads every session after the object restarted. Streams do not survive a restart,
+	 * so sessions that still had one open count as disconnected from now.
+	 */
+	async restore(now = Date.now()): Promise<SseSession[]> {
+		const sessions = await this.list();
+		for (const session of sessions) {
+			if (!this.sessions.has(session.sessionId)) {
+				this.sessions.set(session.sessionId, session);
+			}
+			if (session.disconnectedAt === undefined) {
+				session.disconnectedAt = now;
+				await this.save(session);
+			}
+		}
+		return sessions;
+	}
+
+	// Deletes sessions disconnected past retention, with their events, returning them
+	async sweep(now = Date.now()): Promise<SseSession[]> {
+		const expired = (await this.list()).filter(
+			(session) =>
+				session.disconnectedAt !== undefined &&
+				session.disconnectedAt + this.retentionMs <= now,
+		);
+		for (const session of expired) {
+			const events = await this.storage.list({
+				prefix: `${EVENT_PREFIX}${session.sessionId}/`,
+			});
+			const keys = [...events.keys(), `${SESSION_PREFIX}${session.sessionId}`];
+			for (let i = 0; i < keys.length; i += 128) {
+				await this.storage.delete(keys.slice(i, i + 128));
+			}
+			this.sessions.delete(session.sessionId);
+		}
+		return expired;
+	}
+
+	async nextDeadline(): Promise<number | undefined> {
+		const deadlines = (await this.list())
+			.filter((session) => session.disconnectedAt !== undefined)
+			.map((session) => session.disconnectedAt! + this.retentionMs);
+		return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+	}
+
+	private async save(session: SseSession) {
+		await this.storage.put(`${SESSION_PREFIX}${session.sessionId}`, session);
+	}
+
+	// Prefers the copies in use, whose sequence numbers may be ahead of what was listed
+	private async list(): Promise<SseSession[]> {
+		const entries = await this.storage.list<SseSession>({ prefix: SESSION_PREFIX });
+		return [...entries.values()].map(
+			(session) => this.sessions.get(session.sessionId) ?? session,
+		);
+	}
+}
+
+// Event IDs name the session too, since a reconnecting client only sends its Last-Event-ID
+export function formatEventId(sessionId: string, id: number): string {
+	return `${sessionId}:${id}`;
+}
+
+export function parseEventId(value: string): { sessionId: string; id: number } | undefined {
+	const match = /^(.+):(\d+)$/.exec(value.trim());
+	if (!match) {
+		return undefined;
+	}
+	return { sessionId: match[1], id: Number(match[2]) };
+}
+
+// Zero-padded so the events of a session list in order
+function eventKey(sessionId: string, id: number): string {
+	return `${EVENT_PREFIX}${sessionId}/${id.toString().padStart(12, "0")}`;
+}
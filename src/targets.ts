@@ -0,0 +1,119 @@
+import type { TenantConfig } from "./tenants";
+
+// The four COMPLiQ actions the tools submit to
+export type CompliqEndpoint = "taskInput" | "fileInput" | "resourcesUsed" | "output";
+
+export const DEFAULT_PATHS: Record<CompliqEndpoint, string> = {
+	taskInput: "/v1/actions/task-input",
+	fileInput: "/v1/actions/file-input",
+	resourcesUsed: "/v1/actions/resources-used",
+	output: "/v1/actions/output",
+};
+
+// Used when neither the deployment nor the tenant names an environment
+export const DEFAULT_ENVIRONMENT = "staging";
+
+export interface EnvironmentConfig {
+	baseUrl?: string;
+	paths?: Partial<Record<CompliqEndpoint, string>>;
+}
+
+// Environments every deployment knows about; COMPLIQ_ENVIRONMENTS can add to or override them
+const BUILTIN_ENVIRONMENTS: Record<string, EnvironmentConfig> = {
+	staging: { baseUrl: "https://ai-stage-be.compliq.io" },
+	// COMPLiQ does not publish a fixed production host, so deployments must set its baseUrl
+	production: {},
+	local: { baseUrl: "http://localhost:8788" },
+};
+
+export interface TargetEnv {
+	COMPLIQ_ENVIRONMENT?: string;
+	COMPLIQ_BASE_URL?: string;
+	// JSON object of environment name -> EnvironmentConfig
+	COMPLIQ_ENVIRONMENTS?: string;
+}
+
+// A fully resolved COMPLiQ backend
+export interface CompliqTarget {
+	environment: string;
+	baseUrl: string;
+	paths: Record<CompliqEndpoint, string>;
+}
+
+export class TargetError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TargetError";
+	}
+}
+
+export function getEnvironments(env: TargetEnv): Record<string, EnvironmentConfig> {
+	if (!env.COMPLIQ_ENVIRONMENTS) {
+		return BUILTIN_ENVIRONMENTS;
+	}
+	let custom: Record<string, EnvironmentConfig>;
+	try {
+		custom = JSON.parse(env.COMPLIQ_ENVIRONMENTS);
+	} catch {
+		throw new TargetError("COMPLIQ_ENVIRONMENTS is not valid JSON");
+	}
+
+	const environments = { ...BUILTIN_ENVIRONMENTS };
+	for (const [name, config] of Object.entries(custom)) {
+		environments[name] = {
+			...environments[name],
+			...config,
+			paths: { ...environments[name]?.paths, ...config.paths },
+		};
+	}
+	return environments;
+}
+
+/**
+ * Picks the COMPLiQ backend for a tenant. Tenant settings win over deployment settings,
+ * and an explicit base URL wins over the environment's own.
+ */
+export function resolveTarget(env: TargetEnv, tenantConfig: TenantConfig = {}): CompliqTarget {
+	const environment =
+		tenantConfig.compliqEnvironment ?? env.COMPLIQ_ENVIRONMENT ?? DEFAULT_ENVIRONMENT;
+	const config = getEnvironments(env)[environment];
+	if (!config) {
+		throw new TargetError(`Unknown COMPLiQ environment: ${environment}`);
+	}
+
+	const baseUrl = tenantConfig.compliqBaseUrl ?? env.COMPLIQ_BASE_URL ?? config.baseUrl;
+	if (!baseUrl) {
+		throw new TargetError(`No base URL configured for COMPLiQ environment ${environment}`);
+	}
+
+	return {
+		environment,
+		baseUrl: baseUrl.replace(/\/+$/, ""),
+		paths: { ...DEFAULT_PATHS, ...config.paths },
+	};
+}
+
+// Rejects targets that would send audit data somewhere it should not go
+export function validateTarget(target: CompliqTarget) {
+	let url: URL;
+	try {
+		url = new URL(target.baseUrl);
+	} catch {
+		throw new TargetError(`Invalid COMPLiQ base URL: ${target.baseUrl}`);
+	}
+
+	const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+	if (url.protocol !== "https:" && !(isLocal && url.protocol === "http:")) {
+		throw new TargetError(`COMPLiQ base URL must use https: ${target.baseUrl}`);
+	}
+
+	for (const [endpoint, path] of Object.entries(target.paths)) {
+		if (!path.startsWith("/")) {
+			throw new TargetError(`Path for ${endpoint} must start with "/": ${path}`);
+		}
+	}
+}
+
+export function endpointUrl(target: CompliqTarget, endpoint: CompliqEndpoint): string {
+	return `${target.baseUrl}${target.paths[endpoint]}`;
+}
@@ -0,0 +1,139 @@
+import type { LimitsConfig } from "./limits";
+import { logger } from "./logger";
+import type { RedactionConfig } from "./redaction";
+import type { SinkConfig } from "./sinks";
+
+const log = logger("tenants");
+
+// Header the worker uses to tell a Durable Object which tenant it serves
+export const TENANT_HEADER = "X-Tenant-Id";
+
+// Used when a request carries no tenant information at all
+export const DEFAULT_TENANT = "default";
+
+const TENANT_NAME = /^[a-z0-9][a-z0-9_-]{0,62}$/i;
+const TENANT_PATH = /^\/t\/([^/]+)(\/.*)?$/;
+
+// Per-tenant settings, read from the TENANTS JSON variable
+export interface TenantConfig {
+	compliqApiKey?: string;
+	// Which COMPLiQ backend to log to, see targets.ts
+	compliqEnvironment?: string;
+	compliqBaseUrl?: string;
+	// IANA time zone that timestamps are written in, overriding COMPLIQ_TIME_ZONE
+	timeZone?: string;
+	// Replaces REDACTION_CONFIG for this tenant
+	redaction?: RedactionConfig;
+	// Merged over RATE_LIMITS for this tenant
+	rateLimits?: LimitsConfig;
+	// Replaces AUDIT_SINKS for this tenant
+	sinks?: SinkConfig[];
+	apiKeys?: string[];
+	maxSseClients?: number;
+}
+
+export interface TenantEnv {
+	TENANTS?: string;
+	DEFAULT_TENANT?: string;
+	// Comma-separated tenants that clients whose credentials name no tenant may pick by path
+	SHARED_TENANTS?: string;
+}
+
+export class TenantError extends Error {
+	status: number;
+
+	constructor(message: string, status = 403) {
+		super(message);
+		this.name = "TenantError";
+		this.status = status;
+	}
+}
+
+export function isValidTenant(tenant: string): boolean {
+	return TENANT_NAME.test(tenant);
+}
+
+/**
+ * Splits `/t/{tenant}/sse` into the tenant and the route the Durable Object serves (`/sse`).
+ * Paths without a tenant segment are returned unchanged; a segment that is not valid
+ * percent-encoding is rejected with a TenantError.
+ */
+export function parseTenantPath(pathname: string): { tenant?: string; route: string } {
+	const match = TENANT_PATH.exec(pathname);
+	if (!match) {
+		return { route: pathname };
+	}
+	let tenant: string;
+	try {
+		tenant = decodeURIComponent(match[1]);
+	} catch {
+		throw new TenantError(`Invalid tenant name: ${match[1]}`, 400);
+	}
+	return { tenant, route: match[2] || "/" };
+}
+
+export function getTenantConfigs(env: TenantEnv): Record<string, TenantConfig> {
+	if (!env.TENANTS) {
+		return {};
+	}
+	try {
+		return JSON.parse(env.TENANTS);
+	} catch (error) {
+		log.error("TENANTS is not valid JSON, ignoring it", { error });
+		return {};
+	}
+}
+
+export function getTenantConfig(env: TenantEnv, tenant: string): TenantConfig {
+	return getTenantConfigs(env)[tenant] ?? {};
+}
+
+/**
+ * Works out which tenant a request belongs to. The authenticated principal's tenant and a
+ * path segment must agree when both are present; requests with neither fall back to the
+ * default tenant.
+ */
+export function resolveTenant(request: Request, env: TenantEnv, principalTenant?: string): string {
+	const { tenant: fromPath } = parseTenantPath(new URL(request.url).pathname);
+
+	if (fromPath && principalTenant && fromPath !== principalTenant) {
+		throw new TenantError(`Credentials do not belong to tenant ${fromPath}`);
+	}
+
+	const tenant = principalTenant ?? fromPath ?? env.DEFAULT_TENANT ?? DEFAULT_TENANT;
+	if (!isValidTenant(tenant)) {
+		throw new TenantError(`Invalid tenant name: ${tenant}`, 400);
+	}
+	return tenant;
+}
+
+// The default tenant, or one configured in TENANTS
+export function isKnownTenant(env: TenantEnv, tenant: string): boolean {
+	return tenant === (env.DEFAULT_TENANT ?? DEFAULT_TENANT) || !!getTenantConfigs(env)[tenant];
+}
+
+/**
+ * Checks a client may use the tenant its request resolved to. Only the default tenant and
+ * tenants in TENANTS are served, so made-up names cannot create Durable Objects that log with
+ * the shared COMPLiQ key. Clients whose credentials name no tenant may only pick the default
+ * tenant or one listed in SHARED_TENANTS.
+ */
+export function authorizeTenant(env: TenantEnv, tenant: string, principalTenant?: string) {
+	if (!isKnownTenant(env, tenant)) {
+		throw new TenantError(`Unknown tenant: ${tenant}`, 404);
+	}
+	if (
+		tenant !== (env.DEFAULT_TENANT ?? DEFAULT_TENANT) &&
+		principalTenant === undefined &&
+		!sharedTenants(env).includes(tenant)
+	) {
+		throw new TenantError(`Credentials do not belong to tenant ${tenant}`);
+	}
+}
+
+function sharedTenants(env: TenantEnv): string[] {
+	return (env.SHARED_TENANTS ?? "")
+		.split(",")
+		.map((tenant) => tenant.trim())
+		.filter(Boolean);
+}
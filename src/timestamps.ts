@@ -0,0 +1,111 @@
+import { ToolInputError } from "./results";
+
+// COMPLiQ stores wall-clock times without a zone, so the deployment decides which one
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const TIMESTAMP_PATTERN = /^(\d{2})-(\d{2})-(\d{4}) (\d{2}):(\d{2}):(\d{2})$/;
+// ISO 8601 is only accepted with an offset, since a bare local time is ambiguous
+const ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+const DURATION_PATTERN = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/;
+
+// Formats an instant as MM-DD-YYYY HH:MM:SS in the given time zone
+export function formatTimestamp(date: Date, timeZone = DEFAULT_TIME_ZONE): string {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+			hourCycle: "h23",
+		})
+			.formatToParts(date)
+			.map((part) => [part.type, part.value]),
+	);
+	return `${parts.month}-${parts.day}-${parts.year} ${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/**
+ * Checks a client-supplied timestamp and returns it as MM-DD-YYYY HH:MM:SS. Values already
+ * in that format are taken as being in the configured zone; ISO 8601 values with an offset
+ * are converted to it. Anything else is rejected rather than guessed at.
+ */
+export function normalizeTimestamp(value: string, timeZone = DEFAULT_TIME_ZONE): string {
+	const trimmed = value.trim();
+	if (TIMESTAMP_PATTERN.test(trimmed)) {
+		if (wallClockMs(trimmed) === undefined) {
+			throw new ToolInputError(`Timestamp is not a valid date and time: ${value}`);
+		}
+		return trimmed;
+	}
+	if (ISO_PATTERN.test(trimmed)) {
+		const ms = Date.parse(trimmed);
+		if (!Number.isNaN(ms)) {
+			return formatTimestamp(new Date(ms), timeZone);
+		}
+	}
+	throw new ToolInputError(
+		`Timestamp must be MM-DD-YYYY HH:MM:SS or ISO 8601 with a time zone offset: ${value}`,
+	);
+}
+
+// Checks a client-supplied processing time and returns it zero-padded as HH:MM:SS
+export function normalizeProcessingTime(value: string): string {
+	const match = DURATION_PATTERN.exec(value.trim());
+	if (!match) {
+		throw new ToolInputError(`Processing time must be HH:MM:SS: ${value}`);
+	}
+	return `${match[1].padStart(2, "0")}:${match[2]}:${match[3]}`;
+}
+
+/**
+ * The time between two MM-DD-YYYY HH:MM:SS timestamps as HH:MM:SS. Both are read as
+ * wall-clock times in the same zone, which is how the server stamps them.
+ */
+export function processingTimeBetween(start: string, end: string): string {
+	const startMs = wallClockMs(start);
+	const endMs = wallClockMs(end);
+	if (startMs === undefined || endMs === undefined) {
+		throw new ToolInputError(`Cannot compute processing time between ${start} and ${end}`);
+	}
+	if (endMs < startMs) {
+		throw new ToolInputError(`Result timestamp ${end} is earlier than the prompt's ${start}`);
+	}
+
+	const seconds = Math.floor((endMs - startMs) / 1000);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+// Fails fast on a misconfigured zone instead of on the first tool call
+export function validateTimeZone(timeZone: string) {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+	} catch {
+		throw new Error(`Unknown time zone: ${timeZone}`);
+	}
+}
+
+// Milliseconds for a wall-clock MM-DD-YYYY HH:MM:SS read as UTC, or undefined if it is not a real date
+function wallClockMs(timestamp: string): number | undefined {
+	const match = TIMESTAMP_PATTERN.exec(timestamp);
+	if (!match) {
+		return undefined;
+	}
+	const [month, day, year, hour, minute, second] = match.slice(1).map(Number);
+	const ms = Date.UTC(year, month - 1, day, hour, minute, second);
+	const date = new Date(ms);
+	// Date.UTC rolls over out-of-range fields (e.g. 02-30), so compare them back
+	if (
+		date.getUTCMonth() !== month - 1 ||
+		date.getUTCDate() !== day ||
+		date.getUTCHours() !== hour ||
+		date.getUTCMinutes() !== minute ||
+		date.getUTCSeconds() !== second
+	) {
+		return undefined;
+	}
+	return ms;
+}
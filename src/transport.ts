@@ -0,0 +1,107 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+	Transport,
+	TransportSendOptions,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+	JSONRPCError,
+	JSONRPCMessage,
+	JSONRPCResponse,
+	RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger";
+
+const log = logger("transport");
+
+// Who sent a message into the transport
+export interface MessageContext {
+	sessionId?: string;
+	authInfo?: AuthInfo;
+}
+
+interface PendingRequest {
+	originalId: RequestId;
+	context: MessageContext;
+	resolve: (response: JSONRPCResponse | JSONRPCError) => void;
+}
+
+/**
+ * A transport that multiplexes many client sessions onto a single McpServer.
+ *
+ * Inbound request IDs are rewritten to IDs that are unique within this transport, so
+ * two clients that both send `id: 1` never collide. The response is routed back to the
+ * caller with its original ID restored.
+ */
+export class WorkerTransport implements Transport {
+	onclose?: () => void;
+	onerror?: (error: Error) => void;
+	onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+	// Called for server-initiated messages (notifications, requests) that are not responses
+	onoutbound?: (message: JSONRPCMessage, context?: MessageContext) => void;
+
+	private pending = new Map<RequestId, PendingRequest>();
+	private nextId = 0;
+
+	async start(): Promise<void> {}
+
+	async close(): Promise<void> {
+		// Anything still in flight will never get a response
+		for (const [id, request] of this.pending) {
+			request.resolve({
+				jsonrpc: "2.0",
+				id: request.originalId,
+				error: { code: -32000, message: "Connection closed" },
+			});
+			this.pending.delete(id);
+		}
+		this.onclose?.();
+	}
+
+	async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+		if ("id" in message && ("result" in message || "error" in message)) {
+			const request = this.pending.get(message.id);
+			if (!request) {
+				log.warn("Dropping response for unknown request", { id: message.id });
+				return;
+			}
+			this.pending.delete(message.id);
+			request.resolve({ ...message, id: request.originalId });
+			return;
+		}
+
+		const related =
+			options?.relatedRequestId !== undefined
+				? this.pending.get(options.relatedRequestId)?.context
+				: undefined;
+		this.onoutbound?.(message, related);
+	}
+
+	/**
+	 * Delivers a client message to the server. Resolves with the response for requests
+	 * and with undefined for notifications and responses.
+	 */
+	dispatch(
+		message: JSONRPCMessage,
+		context: MessageContext = {},
+	): Promise<JSONRPCResponse | JSONRPCError | undefined> {
+		if (!this.onmessage) {
+			throw new Error("Transport is not connected to a server");
+		}
+
+		if (!("method" in message) || !("id" in message)) {
+			this.onmessage(message, { authInfo: context.authInfo });
+			return Promise.resolve(undefined);
+		}
+
+		const internalId = ++this.nextId;
+		return new Promise((resolve) => {
+			this.pending.set(internalId, { originalId: message.id, context, resolve });
+			this.onmessage!({ ...message, id: internalId }, { authInfo: context.authInfo });
+		});
+	}
+
+	// Looks up the caller of a request the server is currently handling
+	contextFor(requestId: RequestId): MessageContext | undefined {
+		return this.pending.get(requestId)?.context;
+	}
+}
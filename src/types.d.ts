@@ -13,7 +13,8 @@ declare module "agents/mcp" {
 declare module "@modelcontextprotocol/sdk/server/mcp.js" {
   export class McpServer {
     constructor(options: { name: string; version: string });
-    tool(name: string, schema: any, handler: (args: any) => Promise<any>): void;
+    tool(name: string, schema: any, handler: (args: any, extra?: any) => Promise<any>): void;
+    connect(transport: any): Promise<void>;
   }
 }
 
@@ -26,4 +27,11 @@ interface DurableObjectStorage {
   get(key: string): Promise<any>;
   put(key: string, value: any): Promise<void>;
   delete(key: string): Promise<boolean>;
-} 
\ No newline at end of file
+} 
+// AsyncLocalStorage, available through the nodejs_compat flag
+declare module "node:async_hooks" {
+  export class AsyncLocalStorage<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, callback: () => R): R;
+  }
+}
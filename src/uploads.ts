@@ -0,0 +1,240 @@
+import type { DurableObjectStorage } from "@cloudflare/workers-types";
+import { appendStream, deleteBytes, streamBytes } from "./blobs";
+import type { CompliqFile } from "./compliq";
+import { logger } from "./logger";
+
+const log = logger("uploads");
+
+const META_PREFIX = "upload:";
+const DATA_PREFIX = "upload-data:";
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+export const DEFAULT_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Upload IDs are chosen by the client, so they must be hard to guess and safe in storage keys
+const UPLOAD_ID = /^[A-Za-z0-9_-]{16,128}$/;
+const UPLOAD_URI = /^compliq:\/\/uploads\/([^/?#]+)$/;
+const CONTENT_RANGE = /^bytes (\d+)-(\d+)\/(\d+|\*)$/;
+
+// A file staged through PUT /uploads/{id}, waiting to be attached to a submission
+export interface Upload {
+	id: string;
+	name: string;
+	contentType: string;
+	size: number;
+	chunks: number;
+	// Total size announced in Content-Range, once known
+	expectedSize?: number;
+	complete: boolean;
+	// Subject of the principal that uploaded it; only it may attach the upload
+	owner?: string;
+	// New each time the upload is replaced, so equal IDs with different bytes are told apart
+	version?: string;
+	createdAt: number;
+	expiresAt: number;
+}
+
+export interface UploadOptions {
+	maxBytes?: number;
+	ttlMs?: number;
+}
+
+export class UploadError extends Error {
+	status: number;
+
+	constructor(message: string, status = 400) {
+		super(message);
+		this.name = "UploadError";
+		this.status = status;
+	}
+}
+
+// Accepts either a bare upload ID or a compliq://uploads/{id} URI
+export function parseUploadRef(ref: string): string {
+	const id = UPLOAD_URI.exec(ref)?.[1] ?? ref;
+	if (!UPLOAD_ID.test(id)) {
+		throw new UploadError(`Invalid upload ID: ${ref}`);
+	}
+	return id;
+}
+
+export function uploadUri(id: string): string {
+	return `compliq://uploads/${id}`;
+}
+
+/**
+ * Stages file uploads in Durable Object storage, so tools can attach large files by
+ * reference instead of as base64. Uploads arrive in one PUT, or in several that each
+ * carry a Content-Range continuing where the last one stopped.
+ */
+export class UploadStore {
+	private storage: DurableObjectStorage;
+	private maxBytes: number;
+	private ttlMs: number;
+
+	constructor(storage: DurableObjectStorage, options: UploadOptions = {}) {
+		this.storage = storage;
+		this.maxBytes = options.maxBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+		this.ttlMs = options.ttlMs ?? DEFAULT_UPLOAD_TTL_MS;
+	}
+
+	get(id: string): Promise<Upload | undefined> {
+		return this.storage.get<Upload>(`${META_PREFIX}${id}`);
+	}
+
+	// Stores the body of a PUT, appending to the upload if it carries a Content-Range
+	async write(id: string, request: Request, owner?: string): Promise<Upload> {
+		parseUploadRef(id);
+		if (!request.body) {
+			throw new UploadError("Upload body is empty");
+		}
+
+		const range = parseContentRange(request.headers.get("Content-Range"));
+		const length = request.headers.get("Content-Length");
+		if (range && length !== null && Number(length) !== range.end - range.start + 1) {
+			throw new UploadError("Content-Length does not match Content-Range");
+		}
+		let upload = await this.get(id);
+		if (upload && upload.owner !== owner) {
+			throw new UploadError("Upload belongs to another client", 403);
+		}
+		// A PUT without a range replaces the upload; one with a range continues it
+		if (upload && !range) {
+			await this.delete(id);
+			upload = undefined;
+		}
+		if (upload?.complete) {
+			throw new UploadError("Upload is already complete", 409);
+		}
+		const size = upload?.size ?? 0;
+		if (range && range.start !== size) {
+			throw new UploadError(`Expected a range starting at byte ${size}`, 416);
+		}
+
+		const now = Date.now();
+		const url = new URL(request.url);
+		const next: Upload = upload ?? {
+			id,
+			name: url.searchParams.get("name") ?? request.headers.get("X-File-Name") ?? id,
+			contentType: request.headers.get("Content-Type") ?? "application/octet-stream",
+			size: 0,
+			chunks: 0,
+			complete: false,
+			owner,
+			version: crypto.randomUUID(),
+			createdAt: now,
+			expiresAt: now + this.ttlMs,
+		};
+		next.expectedSize = range?.total ?? next.expectedSize;
+		if ((next.expectedSize ?? 0) > this.maxBytes) {
+			throw new UploadError(`Upload exceeds the limit of ${this.maxBytes} bytes`, 413);
+		}
+		// A ranged body may not run past its range
+		const limit = range ? range.end + 1 : this.maxBytes;
+
+		try {
+			await appendStream(this.storage, `${DATA_PREFIX}${id}`, next, request.body, limit);
+		} catch (error) {
+			// The chunks written so far are useless without the rest, so drop the whole upload
+			await this.storage.put(`${META_PREFIX}${id}`, next);
+			await this.delete(id);
+			if (error instanceof RangeError && range) {
+				throw new UploadError("Body is longer than its Content-Range");
+			}
+			if (error instanceof RangeError) {
+				throw new UploadError(`Upload exceeds the limit of ${limit} bytes`, 413);
+			}
+			throw error;
+		}
+
+		if (range && next.size !== range.end + 1) {
+			await this.storage.put(`${META_PREFIX}${id}`, next);
+			await this.delete(id);
+			throw new UploadError("Body length does not match Content-Range");
+		}
+		next.complete = !range || next.size === next.expectedSize;
+		await this.storage.put(`${META_PREFIX}${id}`, next);
+		log.info("Stored upload bytes", { id, size: next.size, complete: next.complete });
+		return next;
+	}
+
+	/**
+	 * Opens a complete upload as a file for a submission. Its bytes are streamed from
+	 * storage when the submission is sent, never loaded whole.
+	 */
+	async open(ref: string, owner?: string): Promise<CompliqFile> {
+		const id = parseUploadRef(ref);
+		const upload = await this.get(id);
+		if (!upload || upload.expiresAt <= Date.now()) {
+			throw new UploadError(`Upload not found: ${id}`, 404);
+		}
+		if (upload.owner !== undefined && upload.owner !== owner) {
+			throw new UploadError("Upload belongs to another client", 403);
+		}
+		if (!upload.complete) {
+			throw new UploadError(`Upload ${id} is incomplete (${upload.size} bytes so far)`, 409);
+		}
+
+		const key = `${DATA_PREFIX}${id}`;
+		return {
+			name: upload.name,
+			contentType: upload.contentType,
+			data: {
+				key: `${uploadUri(id)}#${upload.version ?? upload.createdAt}`,
+				size: upload.size,
+				stream: () => streamBytes(this.storage, key, upload.chunks),
+			},
+		};
+	}
+
+	async delete(id: string): Promise<boolean> {
+		const upload = await this.get(id);
+		if (!upload) {
+			return false;
+		}
+		await deleteBytes(this.storage, `${DATA_PREFIX}${id}`, upload.chunks);
+		await this.storage.delete(`${META_PREFIX}${id}`);
+		return true;
+	}
+
+	// Deletes expired uploads, returning how many
+	async sweep(now = Date.now()): Promise<number> {
+		let deleted = 0;
+		for (const upload of await this.list()) {
+			if (upload.expiresAt <= now) {
+				await this.delete(upload.id);
+				deleted++;
+			}
+		}
+		return deleted;
+	}
+
+	async nextDeadline(): Promise<number | undefined> {
+		const deadlines = (await this.list()).map((upload) => upload.expiresAt);
+		return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+	}
+
+	private async list(): Promise<Upload[]> {
+		const entries = await this.storage.list<Upload>({ prefix: META_PREFIX });
+		return [...entries.values()];
+	}
+}
+
+function parseContentRange(
+	header: string | null,
+): { start: number; end: number; total?: number } | undefined {
+	if (!header) {
+		return undefined;
+	}
+	const match = CONTENT_RANGE.exec(header.trim());
+	if (!match) {
+		throw new UploadError(`Invalid Content-Range: ${header}`);
+	}
+	const start = Number(match[1]);
+	const end = Number(match[2]);
+	const total = match[3] === "*" ? undefined : Number(match[3]);
+	if (end < start || (total !== undefined && end >= total)) {
+		throw new UploadError(`Invalid Content-Range: ${header}`, 416);
+	}
+	return { start, end, total };
+}
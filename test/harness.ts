@@ -0,0 +1,85 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { type Unstable_DevWorker, unstable_dev } from "wrangler";
+import { CompliqMock } from "./mock/compliq";
+
+export const API_KEY = "e2e-compliq-key";
+export const ADMIN_TOKEN = "e2e-admin-token";
+// Bearer token of a client bound to the user "alice"
+export const ALICE_TOKEN = "e2e-alice-token";
+// Bearer token of another client of the same tenant, bound to "bob"
+export const BOB_TOKEN = "e2e-bob-token";
+
+export interface Stack {
+	url: string;
+	mock: CompliqMock;
+	worker: Unstable_DevWorker;
+	// An MCP client connected over Streamable HTTP (/mcp) or the legacy SSE transport (/sse)
+	connect(options?: { token?: string; transport?: "http" | "sse" }): Promise<Client>;
+	stop(): Promise<void>;
+}
+
+/**
+ * Starts the COMPLiQ mock and the worker under a local Workers runtime, pointed at it.
+ * Durable Object state lives in a fresh directory, so every stack starts empty.
+ */
+export async function startStack(vars: Record<string, string> = {}): Promise<Stack> {
+	const mock = new CompliqMock({ apiKey: API_KEY });
+	const compliqUrl = await mock.start();
+	const state = await mkdtemp(join(tmpdir(), "compliq-e2e-"));
+	const worker = await unstable_dev("src/index.ts", {
+		config: "wrangler.jsonc",
+		ip: "127.0.0.1",
+		persistTo: state,
+		logLevel: "none",
+		vars: {
+			COMPLIQ_ENVIRONMENT: "local",
+			COMPLIQ_BASE_URL: compliqUrl,
+			COMPLIQ_API_KEY: API_KEY,
+			AUTH_DISABLED: "false",
+			AUTH_TOKENS: JSON.stringify({
+				[ALICE_TOKEN]: { subject: "alice", userId: "alice" },
+				[BOB_TOKEN]: { subject: "bob", userId: "bob" },
+			}),
+			ADMIN_TOKEN,
+			LOG_LEVEL: "warn",
+			...vars,
+		},
+		experimental: { disableExperimentalWarning: true, disableDevRegistry: true },
+	});
+	const url = `http://${worker.address}:${worker.port}`;
+	const clients: Client[] = [];
+
+	return {
+		url,
+		mock,
+		worker,
+		async connect({ token = ALICE_TOKEN, transport = "http" } = {}) {
+			const requestInit = { headers: { Authorization: `Bearer ${token}` } };
+			const client = new Client({ name: "compliq-e2e", version: "1.0.0" });
+			await client.connect(
+				transport === "sse"
+					? new SSEClientTransport(new URL("/sse", url), { requestInit })
+					: new StreamableHTTPClientTransport(new URL("/mcp", url), { requestInit }),
+			);
+			clients.push(client);
+			return client;
+		},
+		async stop() {
+			await Promise.allSettled(clients.map((client) => client.close()));
+			await worker.stop();
+			await mock.stop();
+			await rm(state, { recursive: true, force: true });
+		},
+	};
+}
+
+// A session and correlation ID no other test uses
+export function interactionIds() {
+	const id = crypto.randomUUID();
+	return { sessionId: `session-${id}`, correlationId: `correlation-${id}` };
+}
@@ -0,0 +1,351 @@
+import { createHash } from "node:crypto";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+	ADMIN_TOKEN,
+	ALICE_TOKEN,
+	API_KEY,
+	BOB_TOKEN,
+	type Stack,
+	interactionIds,
+	startStack,
+} from "./harness";
+
+const CSV = "name,amount\nalice,42\n";
+
+let stack: Stack;
+let client: Client;
+
+beforeAll(async () => {
+	stack = await startStack({
+		// Short enough that retries and timeouts happen within a test
+		OUTBOX_BASE_DELAY_MS: "200",
+		COMPLIQ_TIMEOUT_MS: "1000",
+		TENANTS: JSON.stringify({ acme: {} }),
+	});
+	client = await stack.connect();
+});
+
+afterAll(async () => {
+	await stack?.stop();
+});
+
+beforeEach(() => {
+	stack.mock.reset();
+});
+
+function sha256(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+async function call(name: string, args: Record<string, unknown>) {
+	return (await client.callTool({ name, arguments: args })) as {
+		isError?: boolean;
+		content: { type: string; text: string }[];
+		structuredContent?: any;
+	};
+}
+
+describe("Streamable HTTP", () => {
+	it("lists the COMPLiQ tools", async () => {
+		const { tools } = await client.listTools();
+		expect(tools.map((tool) => tool.name)).toEqual(
+			expect.arrayContaining([
+				"inputPrompt",
+				"addFile",
+				"intermediateResults",
+				"processingResult",
+				"logInteraction",
+			]),
+		);
+	});
+
+	it("logs a prompt for the authenticated user with the API key and trace ID", async () => {
+		const ids = interactionIds();
+		const result = await call("inputPrompt", { ...ids, content: "What is our refund policy?" });
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({ status: "delivered", recordId: "rec-1" });
+		const [received] = stack.mock.received("taskInput");
+		expect(received.status).toBe(200);
+		expect(received.headers.authorization).toBe(`x-api-key ${API_KEY}`);
+		expect(received.headers["x-request-id"]).toBeTruthy();
+		expect(received.fields).toMatchObject({
+			...ids,
+			content: "What is our refund policy?",
+			userId: "alice",
+		});
+		expect(received.fields.timestamp).toMatch(/^\d{2}-\d{2}-\d{4} \d{2}:\d{2}:\d{2}$/);
+	});
+
+	it("logs a whole interaction in order, with the file's bytes", async () => {
+		const ids = interactionIds();
+		const result = await call("logInteraction", {
+			...ids,
+			prompt: "Summarize the attached sheet",
+			attachments: [
+				{
+					fileBase64: Buffer.from(CSV).toString("base64"),
+					fileName: "sheet.csv",
+					fileContentType: "csv",
+				},
+			],
+			intermediateResults: [{ resourceName: "spreadsheet-reader", content: "2 rows" }],
+			result: { content: "Alice owes 42.", processingTime: "00:00:03" },
+		});
+
+		expect(result.structuredContent).toMatchObject({ completed: true, blocked: false });
+		expect(stack.mock.requests.map((request) => request.endpoint)).toEqual([
+			"taskInput",
+			"fileInput",
+			"resourcesUsed",
+			"output",
+		]);
+		expect(stack.mock.requests.every((request) => request.status === 200)).toBe(true);
+		expect(stack.mock.received("fileInput")[0].file).toEqual({
+			name: "sheet.csv",
+			type: "text/csv",
+			size: CSV.length,
+			sha256: sha256(CSV),
+		});
+		expect(stack.mock.received("output")[0].fields).toMatchObject({
+			...ids,
+			content: "Alice owes 42.",
+			processingTime: "00:00:03",
+		});
+	});
+
+	it("streams staged uploads to COMPLiQ", async () => {
+		const ids = interactionIds();
+		const uploadId = `upload-${crypto.randomUUID()}`;
+		const upload = await fetch(`${stack.url}/uploads/${uploadId}?name=report.csv`, {
+			method: "PUT",
+			headers: { Authorization: `Bearer ${ALICE_TOKEN}`, "Content-Type": "text/csv" },
+			body: CSV,
+		});
+		expect(upload.status).toBe(201);
+
+		await call("inputPrompt", { ...ids, content: "See the report" });
+		const result = await call("addFile", { ...ids, uploadId });
+
+		expect(result.structuredContent).toMatchObject({ status: "delivered" });
+		expect(stack.mock.received("fileInput")[0].file).toMatchObject({
+			name: "report.csv",
+			sha256: sha256(CSV),
+		});
+	});
+
+	it("does not mistake a replaced upload for the one it replaced", async () => {
+		const ids = interactionIds();
+		const uploadId = `upload-${crypto.randomUUID()}`;
+		const put = (body: string) =>
+			fetch(`${stack.url}/uploads/${uploadId}?name=report.csv`, {
+				method: "PUT",
+				headers: { Authorization: `Bearer ${ALICE_TOKEN}`, "Content-Type": "text/csv" },
+				body,
+			});
+		await put(CSV);
+		await call("inputPrompt", { ...ids, content: "See the report" });
+		const args = { ...ids, uploadId, idempotencyKey: `attach-${uploadId}` };
+		await call("addFile", args);
+
+		await put(CSV.replace("alice", "carol"));
+		const again = await call("addFile", args);
+
+		expect(again.isError).toBe(true);
+		expect(JSON.parse(again.content[1].text).error.message).toMatch(/different arguments/);
+	});
+
+	it("charges inline files to the quota once, and only when they are accepted", async () => {
+		const used = async () =>
+			(await call("quotaStatus", {})).structuredContent.uploadBytes.user.used as number;
+		const ids = interactionIds();
+		const file = {
+			fileBase64: Buffer.from(CSV).toString("base64"),
+			fileName: "sheet.csv",
+			fileContentType: "csv",
+		};
+		await call("inputPrompt", { ...ids, content: "See the sheet" });
+		const before = await used();
+
+		const rejected = await call("addFile", { ...ids, ...file, fileName: "sheet.exe" });
+		expect(rejected.isError).toBe(true);
+		expect(await used()).toBe(before);
+
+		const args = { ...ids, ...file, idempotencyKey: `inline-${ids.sessionId}` };
+		await call("addFile", args);
+		await call("addFile", args);
+		expect(await used()).toBe(before + CSV.length);
+	});
+
+	it("only shows a caller its own quota", async () => {
+		const own = await call("quotaStatus", { userId: "alice" });
+		expect(own.isError).toBeFalsy();
+
+		const other = await call("quotaStatus", { userId: "bob" });
+		expect(other.isError).toBe(true);
+		expect(JSON.parse(other.content[1].text).error.message).toMatch(/compliq:admin/);
+	});
+
+	it("redacts content before it leaves the server", async () => {
+		const ids = interactionIds();
+		const result = await call("inputPrompt", {
+			...ids,
+			content: "Mail the invoice to jane.doe@example.com",
+		});
+
+		expect(result.structuredContent.redaction).toMatchObject({ redacted: 1 });
+		const { content } = stack.mock.received("taskInput")[0].fields;
+		expect(content).not.toContain("jane.doe@example.com");
+	});
+
+	it("reports submissions COMPLiQ rejects", async () => {
+		stack.mock.fault({ endpoint: "taskInput", status: 422, times: 1 });
+		const result = await call("inputPrompt", { ...interactionIds(), content: "Hello" });
+
+		expect(result.isError).toBe(true);
+		// Errors only come as JSON text, since they do not match the output schema
+		expect(result.structuredContent).toBeUndefined();
+		expect(JSON.parse(result.content[1].text).error).toMatchObject({
+			type: "compliq_validation",
+			status: 422,
+		});
+	});
+
+	it("queues submissions while COMPLiQ is down and delivers them later", async () => {
+		const ids = interactionIds();
+		stack.mock.fault({ endpoint: "taskInput", status: 503, times: 1 });
+		const result = await call("inputPrompt", { ...ids, content: "Are you there?" });
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({ status: "queued" });
+		const requests = await stack.mock.waitFor((received) =>
+			received.some((request) => request.status === 200),
+		);
+		expect(requests.map((request) => request.status)).toEqual([503, 200]);
+		expect(requests[1].fields).toMatchObject({ ...ids, content: "Are you there?" });
+	});
+
+	it("holds an interaction back behind its dead letter until it is replayed", async () => {
+		const ids = interactionIds();
+		stack.mock.fault({ endpoint: "taskInput", status: 503, times: 1 });
+		stack.mock.fault({ endpoint: "taskInput", status: 422, times: 1 });
+		await call("inputPrompt", { ...ids, content: "First" });
+		const output = await call("processingResult", { ...ids, content: "Second" });
+		expect(output.structuredContent).toMatchObject({ status: "queued" });
+
+		await stack.mock.waitFor((received) => received.some((request) => request.status === 422));
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+		expect(stack.mock.received("output")).toHaveLength(0);
+
+		const replay = await fetch(`${stack.url}/admin/tenants/default/dead-letters/replay`, {
+			method: "POST",
+			headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+		});
+		expect(replay.status).toBe(200);
+		const requests = await stack.mock.waitFor((received) =>
+			received.some((request) => request.endpoint === "output"),
+		);
+		expect(requests.map((request) => `${request.endpoint} ${request.status}`)).toEqual([
+			"taskInput 503",
+			"taskInput 422",
+			"taskInput 200",
+			"output 200",
+		]);
+	});
+
+	it("queues submissions COMPLiQ does not answer in time", async () => {
+		stack.mock.fault({ endpoint: "taskInput", delayMs: 3000, times: 1 });
+		const result = await call("inputPrompt", { ...interactionIds(), content: "Slow" });
+
+		expect(result.structuredContent).toMatchObject({ status: "queued" });
+		expect(result.structuredContent.reason).toMatch(/did not respond within 1000ms/);
+	});
+
+	it("times out a response whose body stalls", async () => {
+		stack.mock.fault({ endpoint: "taskInput", stallBodyMs: 3000, times: 1 });
+		const result = await call("inputPrompt", { ...interactionIds(), content: "Stalled" });
+
+		expect(result.structuredContent).toMatchObject({ status: "queued" });
+		expect(result.structuredContent.reason).toMatch(/did not respond within 1000ms/);
+	});
+
+	it("returns the first result when a call is retried", async () => {
+		const args = { ...interactionIds(), content: "Once only", idempotencyKey: "retry-1" };
+		const first = await call("inputPrompt", args);
+		const second = await call("inputPrompt", args);
+
+		expect(second.structuredContent.recordId).toBe(first.structuredContent.recordId);
+		expect(stack.mock.received("taskInput")).toHaveLength(1);
+	});
+
+	it("rejects clients without credentials", async () => {
+		const response = await fetch(`${stack.url}/mcp`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+
+		expect(response.status).toBe(401);
+		expect(stack.mock.requests).toHaveLength(0);
+	});
+
+	it("keeps clients without a tenant out of other tenants", async () => {
+		const list = (tenant: string) =>
+			fetch(`${stack.url}/t/${tenant}/mcp`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${ALICE_TOKEN}`,
+				},
+				body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+			});
+
+		expect((await list("acme")).status).toBe(403);
+		expect((await list("made-up")).status).toBe(404);
+		expect((await list("%E0")).status).toBe(400);
+	});
+
+	it("does not wake up unknown tenants for admins either", async () => {
+		const headers = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+		const deadLetters = await fetch(`${stack.url}/admin/tenants/made-up/dead-letters`, { headers });
+		expect(deadLetters.status).toBe(404);
+		expect((await fetch(`${stack.url}/t/made-up/ready`, { headers })).status).toBe(404);
+	});
+
+	it("only reports interactions to the principal that opened them", async () => {
+		const ids = interactionIds();
+		const nested = { ...interactionIds(), sessionId: `${ids.sessionId}/nested` };
+		await call("inputPrompt", { ...ids, content: "Mine" });
+		await call("inputPrompt", { ...nested, content: "Also mine" });
+
+		const own = await call("getInteractionStatus", { sessionId: ids.sessionId });
+		expect(own.structuredContent.interactions).toEqual([
+			expect.objectContaining({ correlationId: ids.correlationId }),
+		]);
+
+		const other = await stack.connect({ token: BOB_TOKEN });
+		const status = async (args: Record<string, unknown>) =>
+			(await other.callTool({ name: "getInteractionStatus", arguments: args })) as {
+				isError?: boolean;
+				structuredContent?: any;
+			};
+		expect((await status(ids)).isError).toBe(true);
+		expect((await status({ sessionId: ids.sessionId })).structuredContent.interactions).toEqual([]);
+	});
+
+	it("counts tool calls and COMPLiQ responses in /metrics", async () => {
+		await call("inputPrompt", { ...interactionIds(), content: "Count me" });
+		const response = await fetch(`${stack.url}/metrics`, {
+			headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+		});
+		const text = await response.text();
+
+		expect(text).toMatch(
+			/compliq_mcp_tool_calls_total\{tenant="default",tool="inputPrompt",outcome="ok"\} \d+/,
+		);
+		expect(text).toMatch(
+			/compliq_mcp_upstream_responses_total\{tenant="default",endpoint="taskInput",status="200"\} \d+/,
+		);
+	});
+});
@@ -0,0 +1,354 @@
+import { createHash } from "node:crypto";
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockEndpoint = "taskInput" | "fileInput" | "resourcesUsed" | "output";
+
+// The same paths as DEFAULT_PATHS in src/targets.ts
+export const MOCK_PATHS: Record<string, MockEndpoint> = {
+	"/v1/actions/task-input": "taskInput",
+	"/v1/actions/file-input": "fileInput",
+	"/v1/actions/resources-used": "resourcesUsed",
+	"/v1/actions/output": "output",
+};
+
+const TIMESTAMP = /^\d{2}-\d{2}-\d{4} \d{2}:\d{2}:\d{2}$/;
+const PROCESSING_TIME = /^\d{2}:\d{2}:\d{2}$/;
+
+// Fields each endpoint takes besides sessionId, correlationId and timestamp
+const FIELDS: Record<MockEndpoint, { required: string[]; optional: string[] }> = {
+	taskInput: { required: ["content", "userId"], optional: ["policyViolation"] },
+	fileInput: { required: ["file"], optional: ["userId"] },
+	resourcesUsed: { required: ["resourceName", "userId"], optional: ["content", "file"] },
+	output: {
+		required: ["processingTime", "userId"],
+		optional: ["content", "file", "policyViolation"],
+	},
+};
+
+export interface ReceivedFile {
+	name: string;
+	type: string;
+	size: number;
+	sha256: string;
+}
+
+// One request the mock received, whatever it answered
+export interface ReceivedRequest {
+	endpoint: MockEndpoint;
+	headers: Record<string, string>;
+	fields: Record<string, string>;
+	file?: ReceivedFile;
+	status: number;
+	recordId?: string;
+}
+
+/**
+ * A failure to inject. It applies to the next `times` requests to `endpoint` (every
+ * endpoint if not set), or to all of them if `times` is not set.
+ */
+export interface Fault {
+	endpoint?: MockEndpoint;
+	// Answer with this status instead of accepting the submission
+	status?: number;
+	body?: unknown;
+	// Wait this long before answering, e.g. to trip the server's timeout
+	delayMs?: number;
+	// Send the headers of a successful answer at once, and its body only after this long
+	stallBodyMs?: number;
+	// Close the connection without answering
+	reset?: boolean;
+	times?: number;
+}
+
+export interface FieldError {
+	field: string;
+	message: string;
+}
+
+/**
+ * A stand-in for the four COMPLiQ action endpoints. It checks the API key and the
+ * multipart fields like COMPLiQ does, records every request, and can be told to fail or
+ * slow down. Besides the code API, /__mock/requests and /__mock/faults expose the same
+ * controls over HTTP for when it runs on its own.
+ */
+export class CompliqMock {
+	readonly requests: ReceivedRequest[] = [];
+	// Called once the mock has answered a request
+	onrequest?: (request: ReceivedRequest) => void;
+	private faults: Fault[] = [];
+	private apiKey: string;
+	private server?: Server;
+	private nextRecord = 1;
+
+	constructor(options: { apiKey?: string } = {}) {
+		this.apiKey = options.apiKey ?? "test-key-for-local-development";
+	}
+
+	// Starts listening and returns the base URL; port 0 picks a free one
+	async start(port = 0, host = "127.0.0.1"): Promise<string> {
+		const server = createServer((request, response) => {
+			this.handle(request, response).catch((error) => {
+				response.statusCode = 500;
+				response.end(JSON.stringify({ message: String(error) }));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(port, host, resolve));
+		this.server = server;
+		return `http://${host}:${(server.address() as AddressInfo).port}`;
+	}
+
+	async stop() {
+		const server = this.server;
+		this.server = undefined;
+		if (server) {
+			server.closeAllConnections();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	}
+
+	fault(fault: Fault) {
+		this.faults.push({ ...fault });
+	}
+
+	// Forgets recorded requests and pending faults
+	reset() {
+		this.requests.length = 0;
+		this.faults = [];
+	}
+
+	received(endpoint?: MockEndpoint): ReceivedRequest[] {
+		return this.requests.filter((request) => !endpoint || request.endpoint === endpoint);
+	}
+
+	// Waits until the recorded requests satisfy `done`, e.g. after a retry by the server's alarm
+	async waitFor(
+		done: (requests: ReceivedRequest[]) => boolean,
+		timeoutMs = 10_000,
+	): Promise<ReceivedRequest[]> {
+		const deadline = Date.now() + timeoutMs;
+		while (!done(this.requests)) {
+			if (Date.now() > deadline) {
+				throw new Error(
+					`COMPLiQ mock did not receive the expected requests in ${timeoutMs}ms`,
+				);
+			}
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		}
+		return this.requests;
+	}
+
+	private async handle(request: IncomingMessage, response: ServerResponse) {
+		const url = new URL(request.url ?? "/", "http://mock");
+		const body = await readBody(request);
+		response.setHeader("Content-Type", "application/json");
+
+		if (url.pathname.startsWith("/__mock/")) {
+			return this.control(request.method ?? "GET", url.pathname, body, response);
+		}
+		const endpoint = MOCK_PATHS[url.pathname];
+		if (!endpoint || request.method !== "POST") {
+			return send(response, 404, { message: "Not found" });
+		}
+
+		const received: ReceivedRequest = {
+			endpoint,
+			headers: flattenHeaders(request),
+			fields: {},
+			status: 0,
+		};
+		this.requests.push(received);
+
+		const fault = this.takeFault(endpoint);
+		if (fault?.delayMs) {
+			await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+		}
+		if (fault?.reset) {
+			received.status = -1;
+			request.socket.destroy();
+			return;
+		}
+
+		const parsed = await parseForm(request, body);
+		received.fields = parsed.fields;
+		received.file = parsed.file;
+
+		const authorization = request.headers.authorization;
+		if (!authorization?.startsWith("x-api-key ")) {
+			return this.answer(received, response, 401, { message: "Missing API key" });
+		}
+		if (authorization.slice("x-api-key ".length) !== this.apiKey) {
+			return this.answer(received, response, 403, { message: "Invalid API key" });
+		}
+		if (fault?.status) {
+			return this.answer(
+				received,
+				response,
+				fault.status,
+				fault.body ?? { message: "Injected failure" },
+			);
+		}
+		if (parsed.error) {
+			return this.answer(received, response, 400, { message: parsed.error });
+		}
+		const errors = validate(endpoint, parsed.fields, parsed.file);
+		if (errors.length > 0) {
+			return this.answer(received, response, 400, { message: "Validation failed", errors });
+		}
+
+		received.recordId = `rec-${this.nextRecord++}`;
+		if (fault?.stallBodyMs) {
+			received.status = 200;
+			response.writeHead(200);
+			response.write(`{"id":"${received.recordId}",`);
+			await new Promise((resolve) => setTimeout(resolve, fault.stallBodyMs));
+			response.end('"status":"received"}');
+			this.onrequest?.(received);
+			return;
+		}
+		return this.answer(received, response, 200, { id: received.recordId, status: "received" });
+	}
+
+	private answer(
+		received: ReceivedRequest,
+		response: ServerResponse,
+		status: number,
+		body: unknown,
+	) {
+		received.status = status;
+		send(response, status, body);
+		this.onrequest?.(received);
+	}
+
+	private takeFault(endpoint: MockEndpoint): Fault | undefined {
+		const index = this.faults.findIndex(
+			(fault) => !fault.endpoint || fault.endpoint === endpoint,
+		);
+		if (index < 0) {
+			return undefined;
+		}
+		const fault = this.faults[index];
+		if (fault.times !== undefined && --fault.times <= 0) {
+			this.faults.splice(index, 1);
+		}
+		return fault;
+	}
+
+	private control(method: string, path: string, body: Buffer, response: ServerResponse) {
+		if (path === "/__mock/requests" && method === "GET") {
+			return send(response, 200, this.requests);
+		}
+		if (path === "/__mock/requests" && method === "DELETE") {
+			this.requests.length = 0;
+			return send(response, 200, {});
+		}
+		if (path === "/__mock/faults" && method === "POST") {
+			this.fault(JSON.parse(body.toString("utf8")));
+			return send(response, 200, this.faults);
+		}
+		if (path === "/__mock/faults" && method === "DELETE") {
+			this.faults = [];
+			return send(response, 200, {});
+		}
+		return send(response, 404, { message: "Not found" });
+	}
+}
+
+// What COMPLiQ checks: required fields, known fields only, formats, and content or a file
+export function validate(
+	endpoint: MockEndpoint,
+	fields: Record<string, string>,
+	file?: ReceivedFile,
+): FieldError[] {
+	const errors: FieldError[] = [];
+	const { required, optional } = FIELDS[endpoint];
+	const present = new Set([...Object.keys(fields), ...(file ? ["file"] : [])]);
+	for (const field of ["sessionId", "correlationId", "timestamp", ...required]) {
+		if (!present.has(field) || fields[field] === "") {
+			errors.push({ field, message: "is required" });
+		}
+	}
+	const known = new Set(["sessionId", "correlationId", "timestamp", ...required, ...optional]);
+	for (const field of present) {
+		if (!known.has(field)) {
+			errors.push({ field, message: "is not a field of this endpoint" });
+		}
+	}
+	if (fields.timestamp && !TIMESTAMP.test(fields.timestamp)) {
+		errors.push({ field: "timestamp", message: "must be MM-DD-YYYY HH:MM:SS" });
+	}
+	if (fields.processingTime && !PROCESSING_TIME.test(fields.processingTime)) {
+		errors.push({ field: "processingTime", message: "must be HH:MM:SS" });
+	}
+	if (endpoint === "resourcesUsed" || endpoint === "output") {
+		if (present.has("content") === present.has("file")) {
+			errors.push({
+				field: "content",
+				message: "exactly one of content and file is required",
+			});
+		}
+	}
+	if (file && file.size === 0) {
+		errors.push({ field: "file", message: "must not be empty" });
+	}
+	return errors;
+}
+
+async function parseForm(
+	request: IncomingMessage,
+	body: Buffer,
+): Promise<{ fields: Record<string, string>; file?: ReceivedFile; error?: string }> {
+	const contentType = request.headers["content-type"] ?? "";
+	if (!contentType.startsWith("multipart/form-data")) {
+		return { fields: {}, error: "Expected multipart/form-data" };
+	}
+	let form: FormData;
+	try {
+		form = await new Request("http://mock", {
+			method: "POST",
+			headers: { "Content-Type": contentType },
+			body,
+		}).formData();
+	} catch (error) {
+		return { fields: {}, error: `Malformed multipart body: ${(error as Error).message}` };
+	}
+	const fields: Record<string, string> = {};
+	let file: ReceivedFile | undefined;
+	for (const [name, value] of form) {
+		if (typeof value === "string") {
+			fields[name] = value;
+		} else {
+			const bytes = Buffer.from(await value.arrayBuffer());
+			file = {
+				name: value.name,
+				type: value.type,
+				size: bytes.length,
+				sha256: createHash("sha256").update(bytes).digest("hex"),
+			};
+		}
+	}
+	return { fields, file };
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		request.on("data", (chunk: Buffer) => chunks.push(chunk));
+		request.on("end", () => resolve(Buffer.concat(chunks)));
+		request.on("error", reject);
+	});
+}
+
+function flattenHeaders(request: IncomingMessage): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(request.headers).map(([name, value]) => [
+			name,
+			Array.isArray(value) ? value.join(", ") : value ?? "",
+		]),
+	);
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+	response.statusCode = status;
+	response.end(JSON.stringify(body));
+}
@@ -0,0 +1,18 @@
+import { CompliqMock, MOCK_PATHS } from "./compliq";
+
+// Runs the COMPLiQ mock on its own, where the "local" environment expects it
+const port = Number(process.env.PORT ?? 8788);
+const mock = new CompliqMock({ apiKey: process.env.COMPLIQ_API_KEY });
+mock.onrequest = (request) => {
+	const { sessionId, correlationId } = request.fields;
+	const file = request.file ? ` file ${request.file.name} (${request.file.size} bytes)` : "";
+	console.log(`${request.status} ${request.endpoint} ${sessionId}/${correlationId}${file}`);
+};
+const url = await mock.start(port, process.env.HOST ?? "localhost");
+console.log(`COMPLiQ mock listening on ${url}`);
+console.log(`Endpoints: ${Object.keys(MOCK_PATHS).join(", ")}`);
+console.log("Controls: GET|DELETE /__mock/requests, POST|DELETE /__mock/faults");
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.on(signal, () => mock.stop().then(() => process.exit(0)));
+}
@@ -0,0 +1,141 @@
+import { createHmac } from "node:crypto";
+import { type IncomingHttpHeaders, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ADMIN_TOKEN, type Stack, interactionIds, startStack } from "./harness";
+
+const WEBHOOK_SECRET = "e2e-webhook-secret";
+
+interface Delivery {
+	headers: IncomingHttpHeaders;
+	body: string;
+}
+
+let stack: Stack;
+let client: Client;
+let receiver: Server;
+const deliveries: Delivery[] = [];
+// Status the webhook receiver answers with
+let webhookStatus = 204;
+
+beforeAll(async () => {
+	receiver = createServer((req, res) => {
+		let body = "";
+		req.setEncoding("utf8");
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			deliveries.push({ headers: req.headers, body });
+			res.writeHead(webhookStatus).end();
+		});
+	});
+	await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+	const { port } = receiver.address() as AddressInfo;
+	stack = await startStack({
+		AUDIT_SINKS: JSON.stringify([
+			{ type: "compliq" },
+			{
+				type: "webhook",
+				name: "siem",
+				url: `http://127.0.0.1:${port}/hook`,
+				secret: WEBHOOK_SECRET,
+			},
+			{ type: "storage" },
+		]),
+	});
+	client = await stack.connect();
+});
+
+afterAll(async () => {
+	await stack?.stop();
+	await new Promise((resolve) => receiver?.close(resolve));
+});
+
+beforeEach(() => {
+	stack.mock.reset();
+	deliveries.length = 0;
+	webhookStatus = 204;
+});
+
+async function logPrompt(ids: ReturnType<typeof interactionIds>) {
+	return (await client.callTool({
+		name: "inputPrompt",
+		arguments: { ...ids, content: "Summarize the contract" },
+	})) as { isError?: boolean; structuredContent?: any };
+}
+
+describe("Audit sinks", () => {
+	it("writes a submission to every sink and signs the webhook", async () => {
+		const ids = interactionIds();
+		const result = await logPrompt(ids);
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toMatchObject({ status: "delivered", recordId: "rec-1" });
+		expect(result.structuredContent.sinks).toEqual([
+			{ sink: "compliq", type: "compliq", status: "delivered", recordId: "rec-1" },
+			{ sink: "siem", type: "webhook", status: "delivered" },
+			expect.objectContaining({ sink: "storage", type: "storage", status: "delivered" }),
+		]);
+		expect(stack.mock.received("taskInput")).toHaveLength(1);
+
+		const [delivery] = deliveries;
+		const timestamp = delivery.headers["x-compliq-timestamp"];
+		const expected = createHmac("sha256", WEBHOOK_SECRET)
+			.update(`${timestamp}.${delivery.body}`)
+			.digest("hex");
+		expect(delivery.headers["x-compliq-signature"]).toBe(`sha256=${expected}`);
+		const entry = JSON.parse(delivery.body);
+		expect(delivery.headers["idempotency-key"]).toBe(entry.id);
+		expect(entry).toMatchObject({ tenant: "default", endpoint: "taskInput" });
+		expect(entry.request).toMatchObject(ids);
+
+		const response = await fetch(`${stack.url}/admin/tenants/default/audit`, {
+			headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+		});
+		expect(response.status).toBe(200);
+		const { entries } = (await response.json()) as { entries: any[] };
+		expect(entries).toContainEqual(
+			expect.objectContaining({ id: entry.id, endpoint: "taskInput" }),
+		);
+	});
+
+	it("reports a failed sink without failing the call", async () => {
+		webhookStatus = 500;
+		const result = await logPrompt(interactionIds());
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent.status).toBe("delivered");
+		expect(result.structuredContent.sinks[1]).toMatchObject({
+			sink: "siem",
+			status: "failed",
+			error: { type: "sink_failed", message: "Webhook failed with 500" },
+		});
+		expect(result.structuredContent.warnings).toContain(
+			"Sink siem failed: Webhook failed with 500",
+		);
+	});
+
+	it("fails the call when COMPLiQ refuses it, so a retry reaches COMPLiQ", async () => {
+		stack.mock.fault({ endpoint: "taskInput", status: 422, times: 1 });
+		const args = { ...interactionIds(), content: "Refused", idempotencyKey: "sinks-refused" };
+		const refused = (await client.callTool({ name: "inputPrompt", arguments: args })) as {
+			isError?: boolean;
+		};
+		expect(refused.isError).toBe(true);
+
+		const retried = (await client.callTool({ name: "inputPrompt", arguments: args })) as {
+			structuredContent?: any;
+		};
+		expect(retried.structuredContent).toMatchObject({ status: "delivered" });
+		expect(stack.mock.received("taskInput").map((request) => request.status)).toEqual([
+			422, 200,
+		]);
+	});
+
+	it("requires the admin token for the audit listing", async () => {
+		const response = await fetch(`${stack.url}/admin/tenants/default/audit`);
+		expect(response.status).toBe(401);
+	});
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ALICE_TOKEN, BOB_TOKEN, type Stack, interactionIds, startStack } from "./harness";
+
+let stack: Stack;
+
+beforeAll(async () => {
+	stack = await startStack();
+});
+
+afterAll(async () => {
+	await stack?.stop();
+});
+
+interface StreamEvent {
+	id?: string;
+	event: string;
+	data: string;
+}
+
+// Opens /sse directly, so the test controls when the stream drops and how it reconnects
+async function openStream(lastEventId?: string) {
+	const controller = new AbortController();
+	const headers: Record<string, string> = { Authorization: `Bearer ${ALICE_TOKEN}` };
+	if (lastEventId) {
+		headers["Last-Event-ID"] = lastEventId;
+	}
+	const response = await fetch(`${stack.url}/sse`, { headers, signal: controller.signal });
+	const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+	let buffered = "";
+
+	async function next(): Promise<StreamEvent> {
+		while (!buffered.includes("\n\n")) {
+			const { value, done } = await reader.read();
+			if (done) {
+				throw new Error("Stream ended");
+			}
+			buffered += value;
+		}
+		const end = buffered.indexOf("\n\n");
+		const block = buffered.slice(0, end);
+		buffered = buffered.slice(end + 2);
+		const event: StreamEvent = { event: "message", data: "" };
+		for (const line of block.split("\n")) {
+			const [field, ...rest] = line.split(": ");
+			if (field === "id" || field === "event" || field === "data") {
+				event[field] = rest.join(": ");
+			}
+		}
+		return event;
+	}
+
+	return {
+		status: response.status,
+		// The next event other than a heartbeat
+		async event(): Promise<StreamEvent> {
+			const event = await next();
+			return event.event === "heartbeat" ? this.event() : event;
+		},
+		close: () => controller.abort(),
+	};
+}
+
+describe("SSE", () => {
+	it("logs an interaction over the event stream", async () => {
+		const client = await stack.connect({ transport: "sse" });
+		const ids = interactionIds();
+
+		const prompt = await client.callTool({
+			name: "inputPrompt",
+			arguments: { ...ids, content: "Hello over SSE" },
+		});
+		const answer = await client.callTool({
+			name: "processingResult",
+			arguments: { ...ids, content: "Hello back" },
+		});
+
+		expect(prompt.isError).toBeFalsy();
+		expect(answer.isError).toBeFalsy();
+		expect(stack.mock.requests.map((request) => [request.endpoint, request.status])).toEqual([
+			["taskInput", 200],
+			["output", 200],
+		]);
+		// Left out by the client, so the server worked it out from the prompt
+		expect(stack.mock.received("output")[0].fields.processingTime).toMatch(
+			/^\d{2}:\d{2}:\d{2}$/,
+		);
+	});
+
+	it("reads back what was logged as a session resource", async () => {
+		const client = await stack.connect({ transport: "sse" });
+		const ids = interactionIds();
+		await client.callTool({
+			name: "inputPrompt",
+			arguments: { ...ids, content: "Remember me" },
+		});
+		// A session whose ID starts with alice's must not show up in hers
+		const other = await stack.connect({ token: BOB_TOKEN, transport: "sse" });
+		await other.callTool({
+			name: "inputPrompt",
+			arguments: { ...interactionIds(), sessionId: `${ids.sessionId}/bob`, content: "Not hers" },
+		});
+
+		const resource = await client.readResource({ uri: `compliq://sessions/${ids.sessionId}` });
+		const session = JSON.parse(String(resource.contents[0].text));
+
+		expect(session.sessionId).toBe(ids.sessionId);
+		expect(session.submissions).toBe(1);
+		expect(session.events).toHaveLength(1);
+		expect(session.events[0]).toMatchObject({ endpoint: "taskInput", status: "delivered" });
+
+		const { resources } = await other.listResources();
+		expect(resources.map((listed) => listed.uri)).not.toContain(
+			`compliq://sessions/${ids.sessionId}`,
+		);
+		await expect(
+			other.readResource({ uri: `compliq://sessions/${ids.sessionId}` }),
+		).rejects.toThrow(/No history/);
+		await expect(
+			other.readResource({ uri: `compliq://interactions/${ids.correlationId}` }),
+		).rejects.toThrow(/No history/);
+	});
+
+	it("replays what a client missed when it reconnects with Last-Event-ID", async () => {
+		const first = await openStream();
+		const endpoint = await first.event();
+		expect(endpoint.event).toBe("endpoint");
+		const post = (message: unknown) =>
+			fetch(new URL(endpoint.data, stack.url), {
+				method: "POST",
+				headers: {
+					Authorization: `Bearer ${ALICE_TOKEN}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify(message),
+			});
+
+		await post({ jsonrpc: "2.0", id: 1, method: "ping" });
+		const answered = await first.event();
+		expect(JSON.parse(answered.data)).toMatchObject({ id: 1 });
+		first.close();
+
+		// Answered while no stream is open, so it can only arrive by replay
+		expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" })).status).toBe(202);
+
+		const second = await openStream(answered.id);
+		expect(second.status).toBe(200);
+		expect((await second.event()).data).toBe(endpoint.data);
+		const replayed = await second.event();
+		expect(JSON.parse(replayed.data)).toMatchObject({ id: 2 });
+		const [sessionId, sequence] = answered.id!.split(":");
+		expect(replayed.id).toBe(`${sessionId}:${Number(sequence) + 1}`);
+		second.close();
+
+		// An ID from the future must not hold back what is sent from now on
+		const third = await openStream(`${sessionId}:999999`);
+		expect((await third.event()).data).toBe(endpoint.data);
+		expect((await post({ jsonrpc: "2.0", id: 3, method: "ping" })).status).toBe(202);
+		expect(JSON.parse((await third.event()).data)).toMatchObject({ id: 3 });
+		third.close();
+	});
+});
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import WebSocket from "ws";
+import { ALICE_TOKEN, type Stack, interactionIds, startStack } from "./harness";
+
+let stack: Stack;
+
+beforeAll(async () => {
+	stack = await startStack();
+});
+
+afterAll(async () => {
+	await stack?.stop();
+});
+
+async function openSocket(): Promise<WebSocket> {
+	const ws = new WebSocket(`${stack.url.replace(/^http/, "ws")}/ws`, "mcp", {
+		headers: { Authorization: `Bearer ${ALICE_TOKEN}` },
+	});
+	await new Promise((resolve, reject) => {
+		ws.once("open", resolve);
+		ws.once("error", reject);
+	});
+	return ws;
+}
+
+// The next frame that passes `matches`, skipping notifications such as resources/list_changed
+function nextMessage(
+	ws: WebSocket,
+	matches: (data: string) => boolean = () => true,
+): Promise<string> {
+	return new Promise((resolve) => {
+		const listener = (data: WebSocket.RawData) => {
+			if (matches(String(data))) {
+				ws.off("message", listener);
+				resolve(String(data));
+			}
+		};
+		ws.on("message", listener);
+	});
+}
+
+describe("WebSocket", () => {
+	it("answers tool calls on the socket", async () => {
+		const ws = await openSocket();
+		expect(ws.protocol).toBe("mcp");
+		const ids = interactionIds();
+
+		const reply = nextMessage(ws, (data) => JSON.parse(data).id === 7);
+		ws.send(
+			JSON.stringify({
+				jsonrpc: "2.0",
+				id: 7,
+				method: "tools/call",
+				params: {
+					name: "inputPrompt",
+					arguments: { ...ids, content: "Hello over a socket" },
+				},
+			}),
+		);
+		const response = JSON.parse(await reply);
+
+		expect(response.id).toBe(7);
+		expect(response.result.structuredContent).toMatchObject({ status: "delivered" });
+		expect(stack.mock.received("taskInput")[0].fields).toMatchObject({
+			...ids,
+			userId: "alice",
+		});
+		ws.close();
+	});
+
+	it("answers keepalive pings", async () => {
+		const ws = await openSocket();
+		const reply = nextMessage(ws);
+		ws.send("ping");
+
+		expect(await reply).toBe("pong");
+		ws.close();
+	});
+
+	it("refuses connections without credentials", async () => {
+		const ws = new WebSocket(`${stack.url.replace(/^http/, "ws")}/ws`);
+		const status = await new Promise((resolve) =>
+			ws.once("unexpected-response", (_request, response) => resolve(response.statusCode)),
+		);
+
+		expect(status).toBe(401);
+	});
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		include: ["test/**/*.test.ts"],
+		// Each suite starts its own worker, so they run one after another
+		fileParallelism: false,
+		testTimeout: 30_000,
+		hookTimeout: 120_000,
+	},
+});